@@ -0,0 +1,251 @@
+// @ts-check
+/// <reference path="./vscode-webview.d.ts" />
+
+// Script of the LLMS.txt preview: links, copy buttons, the section sidebar and in-document search.
+// Actions that need the extension are posted to it as messages.
+;(function () {
+  const vscode = acquireVsCodeApi()
+  const content = /** @type {HTMLElement} */ (document.getElementById('content'))
+  const sidebar = /** @type {HTMLElement} */ (document.querySelector('.sidebar'))
+  const searchInput = /** @type {HTMLInputElement} */ (document.getElementById('search'))
+  const searchCount = /** @type {HTMLElement} */ (document.getElementById('search-count'))
+  const renderId = document.body.dataset.render
+
+  // Stop searching after this many matches, which keeps huge llms-full.txt files responsive
+  const MAX_MATCHES = 1000
+
+  addCopyButtons()
+  restoreScroll()
+
+  window.addEventListener('message', event => {
+    if (event.data?.type === 'loading') {
+      document.body.classList.add('loading')
+    }
+  })
+
+  document.addEventListener('click', event => {
+    const target = /** @type {HTMLElement} */ (event.target)
+    const button = /** @type {HTMLButtonElement | null} */ (target.closest('button'))
+    if (button) {
+      onButtonClick(button)
+      return
+    }
+
+    const link = /** @type {HTMLAnchorElement | null} */ (target.closest('a[href]'))
+    if (!link) {
+      return
+    }
+    event.preventDefault()
+    const href = link.getAttribute('href') ?? ''
+    if (href.startsWith('#')) {
+      document.getElementById(decodeURIComponent(href.slice(1)))?.scrollIntoView()
+    } else if (link.hasAttribute('data-doc')) {
+      vscode.postMessage({ type: 'navigate', url: link.href, title: link.textContent ?? '' })
+    } else {
+      vscode.postMessage({ type: 'openExternal', url: link.href })
+    }
+  })
+
+  document.addEventListener('keydown', event => {
+    if (event.altKey && event.key === 'ArrowLeft') {
+      vscode.postMessage({ type: 'back' })
+    } else if (event.altKey && event.key === 'ArrowRight') {
+      vscode.postMessage({ type: 'forward' })
+    } else if ((event.ctrlKey || event.metaKey) && event.key === 'f') {
+      event.preventDefault()
+      searchInput.focus()
+      searchInput.select()
+    }
+  })
+
+  /**
+   * @param {HTMLButtonElement} button
+   */
+  function onButtonClick(button) {
+    if (button.dataset.file) {
+      vscode.postMessage({ type: 'switchFile', kind: button.dataset.file })
+    } else if (button.classList.contains('copy-section')) {
+      vscode.postMessage({ type: 'copySection', line: Number(button.parentElement?.dataset.line) })
+    } else if (button.classList.contains('copy-link')) {
+      vscode.postMessage({ type: 'copyLink', url: button.dataset.url })
+    } else if (button.dataset.action === 'back' || button.dataset.action === 'forward' || button.dataset.action === 'reload') {
+      vscode.postMessage({ type: button.dataset.action })
+    } else if (button.dataset.action === 'open-as-text') {
+      vscode.postMessage({ type: 'openAsText' })
+    } else if (button.dataset.action === 'search-next') {
+      showMatch(currentMatch + 1)
+    } else if (button.dataset.action === 'search-previous') {
+      showMatch(currentMatch - 1)
+    }
+  }
+
+  /**
+   * Adds a button to copy the section after each heading, and one to copy the URL after each link
+   */
+  function addCopyButtons() {
+    for (const heading of content.querySelectorAll('[data-line]')) {
+      const button = document.createElement('button')
+      button.className = 'copy-section'
+      button.title = 'Copy Section as Markdown'
+      button.textContent = 'Copy'
+      heading.append(button)
+    }
+    for (const link of content.querySelectorAll('a[href]')) {
+      const href = /** @type {HTMLAnchorElement} */ (link).href
+      if (link.getAttribute('href')?.startsWith('#')) {
+        continue
+      }
+      const button = document.createElement('button')
+      button.className = 'copy-link'
+      button.title = 'Copy Link'
+      button.textContent = 'Copy'
+      button.dataset.url = href
+      link.after(button)
+    }
+  }
+
+  // Scroll position: restored when going back and forward, and when the panel is shown again
+
+  function restoreScroll() {
+    const state = vscode.getState()
+    const scrollY = state?.renderId === renderId ? state.scrollY : Number(document.body.dataset.scrollY)
+    if (scrollY) {
+      window.scrollTo(0, scrollY)
+    }
+  }
+
+  let scrollTimer = 0
+  let scrollFrame = 0
+  window.addEventListener('scroll', () => {
+    if (!scrollFrame) {
+      scrollFrame = requestAnimationFrame(() => {
+        scrollFrame = 0
+        updateActiveHeading()
+      })
+    }
+    clearTimeout(scrollTimer)
+    scrollTimer = setTimeout(() => {
+      vscode.setState({ renderId, scrollY: window.scrollY })
+      vscode.postMessage({ type: 'scroll', y: window.scrollY, renderId })
+    }, 200)
+  })
+
+  // Sidebar: highlights the section being read
+
+  const sidebarLinks = new Map(
+    Array.from(sidebar.querySelectorAll('a')).map(link => [decodeURIComponent(link.hash.slice(1)), link])
+  )
+  const sidebarHeadings = Array.from(content.querySelectorAll('[id]')).filter(heading => sidebarLinks.has(heading.id))
+  let activeLink = /** @type {HTMLAnchorElement | undefined} */ (undefined)
+
+  function updateActiveHeading() {
+    const toolbarHeight = document.querySelector('.toolbar')?.getBoundingClientRect().height ?? 0
+    let current = sidebarHeadings[0]
+    for (const heading of sidebarHeadings) {
+      if (heading.getBoundingClientRect().top > toolbarHeight + 16) {
+        break
+      }
+      current = heading
+    }
+    const link = current ? sidebarLinks.get(current.id) : undefined
+    if (link !== activeLink) {
+      activeLink?.classList.remove('active')
+      link?.classList.add('active')
+      link?.scrollIntoView({ block: 'nearest' })
+      activeLink = link
+    }
+  }
+  updateActiveHeading()
+
+  // Search: highlights the matches in the document and steps through them
+
+  /** @type {HTMLElement[]} */
+  let matches = []
+  let currentMatch = -1
+  let searchTimer = 0
+
+  searchInput.addEventListener('input', () => {
+    clearTimeout(searchTimer)
+    searchTimer = setTimeout(() => search(searchInput.value), 150)
+  })
+
+  searchInput.addEventListener('keydown', event => {
+    if (event.key === 'Enter') {
+      showMatch(currentMatch + (event.shiftKey ? -1 : 1))
+    } else if (event.key === 'Escape') {
+      searchInput.value = ''
+      search('')
+    }
+  })
+
+  /**
+   * @param {string} query
+   */
+  function search(query) {
+    clearMatches()
+    const needle = query.trim().toLowerCase()
+    if (!needle) {
+      searchCount.textContent = ''
+      return
+    }
+
+    const walker = document.createTreeWalker(content, NodeFilter.SHOW_TEXT, {
+      acceptNode: node => (node.parentElement?.closest('button') ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT)
+    })
+    /** @type {Text[]} */
+    const textNodes = []
+    while (walker.nextNode()) {
+      textNodes.push(/** @type {Text} */ (walker.currentNode))
+    }
+
+    for (const node of textNodes) {
+      let text = node
+      let index = text.data.toLowerCase().indexOf(needle)
+      while (index !== -1 && matches.length < MAX_MATCHES) {
+        const match = text.splitText(index)
+        text = match.splitText(needle.length)
+        const mark = document.createElement('mark')
+        mark.className = 'search-match'
+        match.replaceWith(mark)
+        mark.append(match)
+        matches.push(mark)
+        index = text.data.toLowerCase().indexOf(needle)
+      }
+      if (matches.length >= MAX_MATCHES) {
+        break
+      }
+    }
+
+    if (matches.length === 0) {
+      searchCount.textContent = 'No results'
+      return
+    }
+    showMatch(0)
+  }
+
+  /**
+   * @param {number} index
+   */
+  function showMatch(index) {
+    if (matches.length === 0) {
+      return
+    }
+    matches[currentMatch]?.classList.remove('current')
+    currentMatch = (index + matches.length) % matches.length
+    const match = matches[currentMatch]
+    match.classList.add('current')
+    match.scrollIntoView({ block: 'center' })
+    const total = matches.length >= MAX_MATCHES ? `${MAX_MATCHES}+` : String(matches.length)
+    searchCount.textContent = `${currentMatch + 1} of ${total}`
+  }
+
+  function clearMatches() {
+    for (const mark of matches) {
+      const parent = mark.parentNode
+      mark.replaceWith(...mark.childNodes)
+      parent?.normalize()
+    }
+    matches = []
+    currentMatch = -1
+  }
+})()
@@ -0,0 +1,15 @@
+// Globals of the webview that media/preview.js runs in.
+
+/**
+ * API of the webview to talk to the extension and keep state across reloads
+ */
+interface VsCodeApi {
+  postMessage(message: unknown): void
+  getState(): any
+  setState(state: unknown): void
+}
+
+/**
+ * Provided by VS Code to webview scripts; can only be called once per webview
+ */
+declare function acquireVsCodeApi(): VsCodeApi
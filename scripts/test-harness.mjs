@@ -0,0 +1,47 @@
+// Shared helpers of the test scripts: runs named tests and loads TypeScript modules of the extension.
+import { createRequire } from 'node:module'
+import * as path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { build } from 'esbuild'
+
+export const root = fileURLToPath(new URL('..', import.meta.url))
+const require = createRequire(import.meta.url)
+
+/**
+ * Bundles a module of src/ into out/test and loads it. Imports of `vscode` resolve to
+ * scripts/vscode-stub.cjs, which covers the few API classes the tested modules construct.
+ * @param {string} entry Path of the module, relative to src/, e.g. "services/linkHealthService.ts"
+ */
+export async function loadModule(entry) {
+  const outfile = path.join(root, 'out', 'test', entry.replace(/\.ts$/, '.js'))
+  await build({
+    entryPoints: [path.join(root, 'src', entry)],
+    outfile,
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    alias: { vscode: path.join(root, 'scripts', 'vscode-stub.cjs') },
+    logLevel: 'warning'
+  })
+  return require(outfile)
+}
+
+/**
+ * Runs tests one after the other, reports each and sets the exit code when one fails
+ * @param {Record<string, () => unknown>} tests Tests by name
+ */
+export async function runTests(tests) {
+  let failures = 0
+  for (const [name, test] of Object.entries(tests)) {
+    try {
+      await test()
+      console.log(`✓ ${name}`)
+    } catch (error) {
+      failures++
+      console.error(`✗ ${name}\n  ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  console.log(`\n${Object.keys(tests).length - failures} passed, ${failures} failed`)
+  process.exitCode = failures > 0 ? 1 : 0
+}
@@ -0,0 +1,126 @@
+// Invokes the language model tools against a stub host serving fixture websites and files.
+// No VS Code instance or network access is needed.
+// Usage: node scripts/test-language-model-tools.mjs
+import assert from 'node:assert/strict'
+import { loadModule, runTests } from './test-harness.mjs'
+
+const { SearchRegistryTool, GetLlmsTxtTool, GetLlmsFullTxtSectionTool } = await loadModule(
+  'providers/languageModelTools.ts'
+)
+
+const websites = [
+  {
+    name: 'Acme Payments',
+    domain: 'https://payments.acme.test',
+    description: 'Payment APIs',
+    category: 'developer-tools',
+    llmsTxtUrl: 'https://payments.acme.test/llms.txt',
+    llmsFullTxtUrl: 'https://payments.acme.test/llms-full.txt'
+  },
+  {
+    name: 'Vectorly',
+    domain: 'https://vectorly.test',
+    description: 'Vector database',
+    category: 'ai-ml',
+    llmsTxtUrl: 'https://vectorly.test/llms.txt'
+  }
+]
+
+const files = {
+  'https://payments.acme.test/llms.txt': '# Acme Payments\n\n> Payment APIs\n\n## Docs\n\n- [Start](https://payments.acme.test/start.md)\n',
+  'https://payments.acme.test/llms-full.txt':
+    '# Acme Payments\n\n## Install\n\nRun npm install acme.\n\n## Webhooks\n\nVerify each signature.\n'
+}
+
+const fetched = []
+const host = {
+  findWebsites: (query, category) =>
+    websites.filter(
+      website =>
+        (!category || website.category === category) &&
+        `${website.name} ${website.description}`.toLowerCase().includes(query.toLowerCase())
+    ),
+  getAllWebsites: () => websites,
+  fetchTxtContent: async url => {
+    fetched.push(url)
+    if (!(url in files)) {
+      throw new Error(`404 for ${url}`)
+    }
+    return files[url]
+  },
+  getMaxCharacters: () => 1000
+}
+
+const text = result => result.content.map(part => part.value).join('\n')
+const invoke = (Tool, input) => new Tool(host).invoke({ input })
+
+const tests = {
+  'searches the registry': () => {
+    const result = invoke(SearchRegistryTool, { query: 'vector' })
+    assert.match(text(result), /^Found 1 website\(s\) matching "vector"/)
+    assert.match(text(result), /- Vectorly \(https:\/\/vectorly\.test\) \[ai-ml\]/)
+    assert.match(text(result), /llms\.txt: https:\/\/vectorly\.test\/llms\.txt/)
+  },
+
+  'reports searches without results': () => {
+    const result = invoke(SearchRegistryTool, { query: 'zzzzqqqq' })
+    assert.equal(text(result), 'No websites in the llms.txt registry match "zzzzqqqq".')
+  },
+
+  'rejects empty search queries': () => {
+    assert.throws(() => invoke(SearchRegistryTool, { query: '  ' }), /A search query is required/)
+  },
+
+  'returns the llms.txt of a website by domain': async () => {
+    const result = await invoke(GetLlmsTxtTool, { domain: 'payments.acme.test' })
+    assert.match(text(result), /^llms\.txt of Acme Payments \(https:\/\/payments\.acme\.test\/llms\.txt\):/)
+    assert.match(text(result), /## Docs/)
+  },
+
+  'returns the llms-full.txt of a website by name': async () => {
+    const result = await invoke(GetLlmsTxtTool, { domain: 'Acme Payments', full: true })
+    assert.match(text(result), /^llms-full\.txt of Acme Payments/)
+    assert.match(text(result), /Verify each signature\./)
+  },
+
+  'truncates content to the maximum number of characters': async () => {
+    const truncatingHost = { ...host, getMaxCharacters: () => 10 }
+    const result = await new GetLlmsTxtTool(truncatingHost).invoke({ input: { domain: 'payments.acme.test' } })
+    assert.match(text(result), /\n\n# Acme Pay\n\n\[Truncated: showing 10 of \d+ characters\]$/)
+  },
+
+  'fails for unknown websites': async () => {
+    await assert.rejects(invoke(GetLlmsTxtTool, { domain: 'unknown.test' }), /No website matching "unknown\.test"/)
+  },
+
+  'fails for files a website does not publish': async () => {
+    await assert.rejects(
+      invoke(GetLlmsTxtTool, { domain: 'vectorly.test', full: true }),
+      /Vectorly does not publish an llms-full\.txt/
+    )
+  },
+
+  'returns a section of the llms-full.txt': async () => {
+    const result = await invoke(GetLlmsFullTxtSectionTool, { domain: 'payments.acme.test', section: 'webhooks' })
+    assert.match(text(result), /^Section "Webhooks" of the llms-full\.txt of Acme Payments:/)
+    assert.match(text(result), /Verify each signature\./)
+    assert.doesNotMatch(text(result), /npm install/)
+  },
+
+  'lists the sections when none matches': async () => {
+    const result = await invoke(GetLlmsFullTxtSectionTool, { domain: 'payments.acme.test', section: 'Billing' })
+    assert.match(text(result), /No section matching "Billing"/)
+    assert.match(text(result), /- Install\n- Webhooks/)
+  },
+
+  'rejects empty section headings without fetching': async () => {
+    fetched.length = 0
+    await assert.rejects(
+      invoke(GetLlmsFullTxtSectionTool, { domain: 'payments.acme.test', section: ' ' }),
+      /A section heading is required/
+    )
+    assert.deepEqual(fetched, [])
+  }
+}
+
+await runTests(tests)
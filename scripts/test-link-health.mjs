@@ -0,0 +1,109 @@
+// Runs the link health checks against a local HTTP server answering like the servers seen in the registry.
+// No network access is needed.
+// Usage: node scripts/test-link-health.mjs
+import assert from 'node:assert/strict'
+import { createServer } from 'node:http'
+import { loadModule, runTests } from './test-harness.mjs'
+
+const { checkLink, checkLinks } = await loadModule('services/linkHealthService.ts')
+
+// Responses by path; `stall` sends the headers and never the body
+const routes = {
+  '/ok/llms.txt': { status: 200, type: 'text/plain', body: '# Acme\n\n> Payment APIs\n' },
+  '/old/llms.txt': { status: 301, location: '/ok/llms.txt' },
+  '/page/llms.txt': { status: 200, type: 'text/html; charset=utf-8', body: '<p>Not here</p>' },
+  '/disguised/llms.txt': { status: 200, type: 'text/plain', body: '<!DOCTYPE html>\n<html><body>Not found</body></html>' },
+  '/missing/llms.txt': { status: 404, type: 'text/plain', body: 'Not found' },
+  '/stalled/llms.txt': { status: 200, type: 'text/plain', stall: true }
+}
+
+const server = createServer((request, response) => {
+  const route = routes[request.url]
+  if (!route) {
+    response.writeHead(404).end()
+  } else if (route.location) {
+    response.writeHead(route.status, { Location: route.location }).end()
+  } else if (route.stall) {
+    response.writeHead(route.status, { 'Content-Type': route.type }).flushHeaders()
+  } else {
+    response.writeHead(route.status, { 'Content-Type': route.type }).end(route.body)
+  }
+})
+await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+const origin = `http://127.0.0.1:${server.address().port}`
+
+const website = { name: 'Acme', domain: origin, description: '' }
+const target = path => ({ website, kind: 'llms.txt', url: `${origin}${path}` })
+
+const tests = {
+  'reports text files as ok': async () => {
+    const result = await checkLink(target('/ok/llms.txt'), 2000)
+    assert.equal(result.status, 'ok')
+    assert.equal(result.httpStatus, 200)
+    assert.equal(result.contentType, 'text/plain')
+    assert.equal(result.redirectedTo, undefined)
+  },
+
+  'reports redirects with the final URL': async () => {
+    const result = await checkLink(target('/old/llms.txt'), 2000)
+    assert.equal(result.status, 'redirected')
+    assert.equal(result.redirectedTo, `${origin}/ok/llms.txt`)
+  },
+
+  'reports HTML pages by content type': async () => {
+    const result = await checkLink(target('/page/llms.txt'), 2000)
+    assert.equal(result.status, 'html')
+    assert.equal(result.contentType, 'text/html; charset=utf-8')
+  },
+
+  'reports HTML pages served as text/plain': async () => {
+    const result = await checkLink(target('/disguised/llms.txt'), 2000)
+    assert.equal(result.status, 'html')
+    assert.equal(result.contentType, 'text/plain')
+  },
+
+  'reports HTTP errors as broken': async () => {
+    const result = await checkLink(target('/missing/llms.txt'), 2000)
+    assert.equal(result.status, 'broken')
+    assert.equal(result.httpStatus, 404)
+  },
+
+  'reports a body that never arrives as a timeout': async () => {
+    const result = await checkLink(target('/stalled/llms.txt'), 300)
+    assert.equal(result.status, 'timeout')
+    assert.match(result.error, /^No response within/)
+    assert.ok(result.latencyMs >= 250, `gave up after ${result.latencyMs} ms`)
+  },
+
+  'checks every target with bounded concurrency': async () => {
+    const paths = ['/ok/llms.txt', '/old/llms.txt', '/page/llms.txt', '/missing/llms.txt']
+    const completed = []
+    const results = await checkLinks(paths.map(target), {
+      concurrency: 2,
+      timeoutMs: 2000,
+      onResult: (_result, count) => completed.push(count)
+    })
+    assert.deepEqual(results.map(result => result.url).sort(), paths.map(path => `${origin}${path}`).sort())
+    assert.deepEqual(completed, [1, 2, 3, 4])
+  },
+
+  'drops the checks cut short by an abort': async () => {
+    const controller = new AbortController()
+    const pending = checkLinks([target('/stalled/llms.txt'), target('/ok/llms.txt')], {
+      concurrency: 1,
+      timeoutMs: 5000,
+      signal: controller.signal
+    })
+    setTimeout(() => controller.abort(), 100)
+    const started = Date.now()
+    assert.deepEqual(await pending, [])
+    assert.ok(Date.now() - started < 2000, 'the stalled check kept running after the abort')
+  }
+}
+
+try {
+  await runTests(tests)
+} finally {
+  server.closeAllConnections()
+  server.close()
+}
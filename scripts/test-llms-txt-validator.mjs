@@ -0,0 +1,56 @@
+// Checks the llms.txt validator against small documents, one per issue it reports.
+// Usage: node scripts/test-llms-txt-validator.mjs
+import assert from 'node:assert/strict'
+import { loadModule, runTests } from './test-harness.mjs'
+
+const { validateLlmsTxt } = await loadModule('services/llmsTxtValidator.ts')
+
+const codes = content => validateLlmsTxt(content).map(issue => `${issue.line}:${issue.code}`)
+
+const tests = {
+  'accepts a well-formed llms.txt': () => {
+    const content = '# Acme\n\n> Payment APIs\n\n## Docs\n\n- [Start](https://acme.test/start.md): First steps\n'
+    assert.deepEqual(codes(content), [])
+  },
+
+  'reports a missing H1': () => {
+    assert.deepEqual(codes('## Docs\n\n- [Start](https://acme.test/start.md)\n'), ['0:missing-h1'])
+  },
+
+  'only checks the title of llms-full.txt files': () => {
+    assert.deepEqual(validateLlmsTxt('Some text\n\n> quote\n', 'llms-full.txt').map(issue => issue.code), ['missing-h1'])
+  },
+
+  'reports a blockquote away from the title': () => {
+    assert.deepEqual(codes('# Acme\n\nIntro\n\n> Late summary\n'), ['4:misplaced-blockquote'])
+  },
+
+  'reports duplicate and empty sections': () => {
+    const content = '# Acme\n\n## Docs\n\n- [A](https://acme.test/a.md)\n\n## docs\n\n## Optional\n'
+    assert.deepEqual(codes(content), ['6:duplicate-section', '6:empty-section', '8:empty-section'])
+  },
+
+  'reports relative URLs': () => {
+    const [issue] = validateLlmsTxt('# Acme\n\n## Docs\n\n- [A](docs/a.md)\n')
+    assert.equal(issue.code, 'relative-url')
+    assert.equal(issue.startColumn, 6)
+    assert.equal(issue.endColumn, 15)
+  },
+
+  'converts bare URL entries into markdown links': () => {
+    const [issue] = validateLlmsTxt('# Acme\n\n## Docs\n\n- https://acme.test/docs/getting%20started.md: First steps\n')
+    assert.equal(issue.code, 'malformed-link')
+    assert.equal(
+      issue.fix.newText,
+      '- [getting started](https://acme.test/docs/getting%20started.md): First steps\n'
+    )
+  },
+
+  'keeps invalid escapes of bare URLs as written': () => {
+    const [issue] = validateLlmsTxt('# Acme\n\n## Docs\n\n- https://example.com/a%zz.md\n')
+    assert.equal(issue.code, 'malformed-link')
+    assert.equal(issue.fix.newText, '- [a%zz](https://example.com/a%zz.md)\n')
+  }
+}
+
+await runTests(tests)
@@ -0,0 +1,94 @@
+// Drives the bundled MCP server over stdio against the fixture registry in fixtures/websites.json.
+// Only the registry is exercised, so no network access is needed.
+// Usage: pnpm esbuild-base && node scripts/test-mcp-server.mjs
+import assert from 'node:assert/strict'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
+import { root, runTests } from './test-harness.mjs'
+
+const transport = new StdioClientTransport({
+  command: process.execPath,
+  args: ['dist/mcpServer.js', '--registry', 'fixtures/websites.json'],
+  cwd: root,
+  stderr: 'inherit'
+})
+const client = new Client({ name: 'llms-txt-test', version: '1.0.0' })
+
+const text = result => result.content.map(part => part.text).join('\n')
+
+const tests = {
+  'lists the tools': async () => {
+    const { tools } = await client.listTools()
+    assert.deepEqual(tools.map(tool => tool.name).sort(), [
+      'get_llms_full_txt_section',
+      'get_llms_txt',
+      'list_websites',
+      'search_websites'
+    ])
+  },
+
+  'lists the fixture websites': async () => {
+    const result = await client.callTool({ name: 'list_websites', arguments: {} })
+    assert.match(text(result), /Showing 3 of 3 website\(s\)/)
+    assert.match(text(result), /Acme Payments \(https:\/\/payments\.acme\.test\) \[developer-tools\]/)
+  },
+
+  'filters websites by category': async () => {
+    const result = await client.callTool({ name: 'list_websites', arguments: { category: 'ai-ml' } })
+    assert.match(text(result), /Showing 1 of 1 website\(s\)/)
+    assert.match(text(result), /Vectorly/)
+  },
+
+  'pages through websites': async () => {
+    const result = await client.callTool({ name: 'list_websites', arguments: { limit: 1, offset: 1 } })
+    assert.match(text(result), /Showing 1 of 3 website\(s\)/)
+  },
+
+  'searches websites by topic': async () => {
+    const result = await client.callTool({ name: 'search_websites', arguments: { query: 'vector database' } })
+    assert.match(text(result), /^Found \d+ website\(s\)/)
+    assert.match(text(result), /Vectorly/)
+  },
+
+  'reports searches without results': async () => {
+    const result = await client.callTool({ name: 'search_websites', arguments: { query: 'zzzzqqqq' } })
+    assert.match(text(result), /No websites in the llms\.txt registry match "zzzzqqqq"/)
+  },
+
+  'reads the alternate registry field names': async () => {
+    const result = await client.callTool({ name: 'search_websites', arguments: { query: 'Example Docs' } })
+    assert.match(text(result), /llms-full\.txt: https:\/\/docs\.example\.test\/llms-full\.txt/)
+  },
+
+  'fails for unknown websites': async () => {
+    const result = await client.callTool({ name: 'get_llms_txt', arguments: { domain: 'unknown.test' } })
+    assert.equal(result.isError, true)
+    assert.match(text(result), /No website matching "unknown\.test"/)
+  },
+
+  'fails for files a website does not publish': async () => {
+    const result = await client.callTool({
+      name: 'get_llms_full_txt_section',
+      arguments: { domain: 'vectorly.test', section: 'Install' }
+    })
+    assert.equal(result.isError, true)
+    assert.match(text(result), /Vectorly does not publish an llms-full\.txt/)
+  },
+
+  'lists one resource per published file': async () => {
+    const { resources } = await client.listResources()
+    assert.deepEqual(resources.map(resource => resource.uri).sort(), [
+      'llms-txt://docs.example.test/llms-full.txt',
+      'llms-txt://payments.acme.test/llms-full.txt',
+      'llms-txt://payments.acme.test/llms.txt',
+      'llms-txt://vectorly.test/llms.txt'
+    ])
+  }
+}
+
+await client.connect(transport)
+try {
+  await runTests(tests)
+} finally {
+  await client.close()
+}
@@ -0,0 +1,42 @@
+// Stand-in for the `vscode` module in test scripts, with just the API the tested modules use.
+class LanguageModelTextPart {
+  constructor(value) {
+    this.value = value
+  }
+}
+
+class LanguageModelToolResult {
+  constructor(content) {
+    this.content = content
+  }
+}
+
+class MarkdownString {
+  constructor(value = '') {
+    this.value = value
+  }
+}
+
+class Disposable {
+  static from(...disposables) {
+    return new Disposable(() => disposables.forEach(disposable => disposable.dispose()))
+  }
+
+  constructor(callOnDispose) {
+    this.callOnDispose = callOnDispose
+  }
+
+  dispose() {
+    this.callOnDispose()
+  }
+}
+
+module.exports = {
+  Disposable,
+  LanguageModelTextPart,
+  LanguageModelToolResult,
+  MarkdownString,
+  workspace: {
+    getConfiguration: () => ({ get: (_key, defaultValue) => defaultValue })
+  }
+}
@@ -1,59 +1,306 @@
 import * as vscode from 'vscode'
+import * as os from 'node:os'
+import { createHash } from 'node:crypto'
 import { WebsitesProvider } from './providers/websitesProvider'
-import { FavoritesProvider } from './providers/favoritesProvider'
-import type { Website, WebsiteQuickPickItem } from './types'
-import { fetchTxtContent } from './services/websiteService'
+import {
+  DEFAULT_GROUP_ID,
+  type FavoriteIssue,
+  type FavoriteTreeItemType,
+  FavoritesProvider
+} from './providers/favoritesProvider'
+import type { LlmsFileKind, Website, WebsiteQuickPickItem } from './types'
+import {
+  clearFileSizes,
+  fetchTxtContent,
+  getDomainKey,
+  getFileSize,
+  getKnownFileSize,
+  setContentCache
+} from './services/websiteService'
+import { ContentCache } from './services/contentCache'
+import { ContentSearchService } from './services/contentSearchService'
+import { ProjectDocsService, type PinResult } from './services/projectDocsService'
 import type { TreeItemType } from './providers/websitesProvider'
-import { WebsiteItem } from './treeItems'
-import { viewTxtContent } from './utils'
+import { PROJECT_VIEW_ID, ProjectProvider } from './providers/projectProvider'
+import { FavoriteGroupItem, LinkItem, WebsiteItem } from './treeItems'
+import { confirmLargeFile, formatBytes, formatTimeAgo, pickWorkspaceFolder, viewTxtContent } from './utils'
+import { clearOutlineCache } from './providers/outline'
+import { LlmsTxtDiagnosticsProvider } from './providers/llmsTxtDiagnostics'
+import { registerLlmsTxtLanguageFeatures } from './providers/llmsTxtLanguage'
+import { LLMS_TXT_SCHEME, LlmsTxtContentProvider, getContentTitle, getSourceUrl } from './providers/llmsTxtContentProvider'
+import { LlmsTxtPreviewManager } from './providers/llmsTxtPreview'
+import { LLMS_TXT_LANGUAGE_ID } from './providers/llmsTxtLanguage'
+import { assembleLinkedDocs, fetchLinkedDocs, getLinkedDocs } from './services/linkedDocsService'
+import { ContentHistory } from './services/contentHistory'
+import { type FavoriteUpdate, FavoritesUpdatePoller } from './services/favoritesUpdatePoller'
+import { CustomWebsites } from './services/customWebsites'
+import { discoverLlmsTxt, getDiscoveryUrls, parseWebsiteInput } from './services/llmsTxtDiscovery'
+import {
+  type LinkCheckResult,
+  checkLinks,
+  formatLinkHealthReport,
+  getAllLinkHealth,
+  getLinkTargets,
+  isBrokenLink,
+  recordLinkHealth
+} from './services/linkHealthService'
+import {
+  WorkspaceFavoritesService,
+  parseFavoritesFile,
+  serializeFavoritesFile
+} from './services/workspaceFavoritesService'
+import {
+  ContentHistoryProvider,
+  LLMS_TXT_HISTORY_SCHEME,
+  formatSnapshotDate,
+  showSnapshotDiff
+} from './providers/contentHistoryProvider'
+import { getToolsMaxCharacters, registerLanguageModelTools } from './providers/languageModelTools'
+import { formatValidationReport, validateLlmsTxt } from './services/llmsTxtValidator'
+import {
+  buildLlmsFullTxt,
+  buildLlmsTxt,
+  type GeneratorSettings,
+  mergeLlmsTxt,
+  scanWorkspace,
+  suggestSectionTitle
+} from './services/llmsTxtGenerator'
+import { serializeLlmsTxt } from './services/llmsTxtParser'
+import {
+  MCP_CLIENTS,
+  getMachineSpecificPaths,
+  installMcpServer,
+  refreshInstalledMcpServer,
+  writeMcpConfig
+} from './services/mcpConfigService'
+import {
+  getCharactersPerToken,
+  getMaxHistorySnapshots,
+  getLinkHealthSettings,
+  getOpenInPreview,
+  getRegistrySources,
+  updateDependencyMapping
+} from './utils/config'
+import { type BundleSource, buildContextBundle, splitBundleChunks } from './services/contextBundleService'
+import { estimateTokens, estimateTokensForSize, formatTokenCount, formatTokens, setCharactersPerToken } from './utils/tokens'
+
+// Key of the latest link health check results in the global state
+const LINK_HEALTH_KEY = 'linkHealthResults'
+
+// Fetching more linked docs than this at once asks for confirmation first
+const MANY_LINKED_DOCS = 50
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('LLMS.txt Extension is now active')
 
+  // Store fetched llms.txt content on disk so it is revalidated rather than re-downloaded
+  const contentCache = new ContentCache(vscode.Uri.joinPath(context.globalStorageUri, 'content').fsPath)
+  setContentCache(contentCache)
+  setCharactersPerToken(getCharactersPerToken())
+  // Flag the links the last health check found broken
+  recordLinkHealth(context.globalState.get<LinkCheckResult[]>(LINK_HEALTH_KEY, []))
+
+  // Outline, folding and links for llms.txt documents, and validation of the files in the workspace
+  context.subscriptions.push(registerLlmsTxtLanguageFeatures(), new LlmsTxtDiagnosticsProvider())
+
+  // Keep a snapshot of each version of the fetched content
+  const contentHistory = new ContentHistory(
+    vscode.Uri.joinPath(context.globalStorageUri, 'history').fsPath,
+    getMaxHistorySnapshots
+  )
+  const stopRecordingHistory = contentCache.onDidChange(url => {
+    contentCache
+      .read(url)
+      .then(content => (content !== undefined ? contentHistory.record(url, content) : undefined))
+      .catch(error => console.error(`Error recording the history of ${url}:`, error))
+  })
+  context.subscriptions.push(
+    { dispose: stopRecordingHistory },
+    vscode.workspace.registerTextDocumentContentProvider(LLMS_TXT_HISTORY_SCHEME, new ContentHistoryProvider(contentHistory))
+  )
+
+  // Show fetched content as read-only documents, offering to show what changed since the last view
+  const contentProvider = new LlmsTxtContentProvider(contentHistory)
+  context.subscriptions.push(
+    contentProvider.onDidViewChangedContent(async ({ uri, change }) => {
+      const title = getContentTitle(uri)
+      const choice = await vscode.window.showInformationMessage(
+        `${title} changed since you last viewed it on ${formatSnapshotDate(change.previous)}`,
+        'Show Changes'
+      )
+      if (choice === 'Show Changes') {
+        await showSnapshotDiff(change.previous, change.current, title)
+      }
+    }),
+    contentProvider,
+    vscode.workspace.registerTextDocumentContentProvider(LLMS_TXT_SCHEME, contentProvider),
+    vscode.commands.registerCommand('llms-txt-extension.reloadDocument', async (uri?: vscode.Uri) => {
+      const target = uri ?? vscode.window.activeTextEditor?.document.uri
+      if (target?.scheme === LLMS_TXT_SCHEME) {
+        contentProvider.reload(target)
+      }
+    })
+  )
+
+  // Show llms.txt files rendered as markdown, with navigation between linked docs
+  const previewManager = new LlmsTxtPreviewManager(context.extensionUri)
+  context.subscriptions.push(previewManager)
+
   // Create the websites provider
   const websitesProvider = new WebsitesProvider(context)
   console.log('WebsitesProvider created')
 
+  // Show the websites added with Add Website alongside the registry's
+  const customWebsites = new CustomWebsites(context)
+  context.subscriptions.push(customWebsites, websitesProvider.setCustomWebsites(customWebsites))
+
   // Create the favorites provider
   const favoritesProvider = new FavoritesProvider(context)
   console.log('FavoritesProvider created')
 
-  // Connect the providers
+  // Connect the providers, updating the favorite stars when favorites are added or removed
   websitesProvider.setFavoritesProvider(favoritesProvider)
+  context.subscriptions.push(
+    favoritesProvider.onDidChangeFavorites(() => {
+      websitesProvider.refresh().catch(error => console.error('Error refreshing websites:', error))
+    })
+  )
 
-  // Initial load of websites
-  console.log('Starting initial website load...')
-  websitesProvider.refresh().then(() => {
-    console.log('Initial website load completed successfully')
-
-    // Register the tree data providers for the views
-    const websitesView = vscode.window.createTreeView('llmsTxtWebsites', {
-      treeDataProvider: websitesProvider,
-      showCollapseAll: true
+  // Viewing a favorite's file in the preview marks its update as seen
+  context.subscriptions.push(
+    previewManager.onDidShowDocument(({ url, website }) => {
+      if (website) {
+        favoritesProvider.clearUpdates(website.domain, url)
+      }
     })
-    console.log('Websites TreeView created')
+  )
+
+  // Show favorites as the registry currently lists them, flagging the ones it dropped or moved
+  favoritesProvider.reconcile(websitesProvider.getAllWebsites())
+  context.subscriptions.push(
+    websitesProvider.onDidLoadWebsites(({ websites, failedSources }) => {
+      const issues = favoritesProvider.reconcile(websites, failedSources)
+      if (issues.length > 0) {
+        notifyFavoriteIssues(favoritesProvider, issues)
+      }
+    }),
+    // Registered after the websites provider's listener, which merges the custom websites first
+    customWebsites.onDidChange(() => favoritesProvider.reconcile(websitesProvider.getAllWebsites()))
+  )
 
-    const favoritesView = vscode.window.createTreeView('llmsTxtFavorites', {
-      treeDataProvider: favoritesProvider
+  // Let language models search the registry and read llms.txt files
+  context.subscriptions.push(
+    registerLanguageModelTools({
+      findWebsites: (query, category) => websitesProvider.findWebsites(query, category),
+      getAllWebsites: () => websitesProvider.getAllWebsites(),
+      fetchTxtContent,
+      getMaxCharacters: getToolsMaxCharacters
     })
-    console.log('Favorites TreeView created')
+  )
+
+  // Keep a previously installed MCP server in sync with this version of the extension
+  refreshInstalledMcpServer(context).catch(error => {
+    console.error('Error updating the installed MCP server:', error)
+  })
+
+  // Register the tree data providers for the views before any data is loaded,
+  // so the views and commands work even when the first fetch fails
+  const websitesView = vscode.window.createTreeView('llmsTxtWebsites', {
+    treeDataProvider: websitesProvider,
+    dragAndDropController: websitesProvider,
+    showCollapseAll: true,
+    canSelectMany: true
+  })
+  console.log('Websites TreeView created')
+
+  const favoritesView = vscode.window.createTreeView('llmsTxtFavorites', {
+    treeDataProvider: favoritesProvider,
+    dragAndDropController: favoritesProvider,
+    canSelectMany: true
+  })
+  console.log('Favorites TreeView created')
+  context.subscriptions.push(favoritesView)
+
+  // Recommend the websites documenting the workspace's dependencies
+  const projectProvider = new ProjectProvider(() => websitesProvider.getAllWebsites(), favoritesProvider)
+  context.subscriptions.push(
+    projectProvider,
+    vscode.window.createTreeView(PROJECT_VIEW_ID, { treeDataProvider: projectProvider, canSelectMany: true }),
+    websitesProvider.onDidLoadWebsites(() => projectProvider.match()),
+    customWebsites.onDidChange(() => projectProvider.match()),
+    favoritesProvider.onDidChangeFavorites(() => projectProvider.refresh())
+  )
+  projectProvider.scan().catch(error => console.error('Error scanning the workspace dependencies:', error))
+
+  // Update the provider with the tree view reference
+  websitesProvider.setTreeView(websitesView)
+  favoritesProvider.setTreeView(favoritesView)
+
+  // Show the favorites shared through the workspace alongside the personal ones
+  const workspaceFavorites = new WorkspaceFavoritesService()
+  context.subscriptions.push(workspaceFavorites, favoritesProvider.setWorkspaceFavorites(workspaceFavorites))
+  context.subscriptions.push(vscode.window.registerFileDecorationProvider(favoritesProvider))
+  console.log('TreeView reference set in provider')
+
+  // Check favorites for updates in the background, when turned on
+  const updatePoller = new FavoritesUpdatePoller(
+    context,
+    {
+      getFavorites: () => favoritesProvider.getAllFavorites(),
+      addUpdates: async updates => {
+        await favoritesProvider.addUpdates(updates)
+        notifyFavoriteUpdates(updates)
+      }
+    },
+    contentCache,
+    contentHistory
+  )
+  context.subscriptions.push(updatePoller)
+  updatePoller.start()
+
+  // Register commands and set up event handlers
+  setupCommands(
+    context,
+    websitesProvider,
+    favoritesProvider,
+    websitesView,
+    contentCache,
+    contentHistory,
+    updatePoller,
+    workspaceFavorites,
+    customWebsites,
+    projectProvider,
+    previewManager
+  )
 
-    // Update the provider with the tree view reference
-    websitesProvider.setTreeView(websitesView)
-    console.log('TreeView reference set in provider')
+  // React to changes of the settings
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('llms-txt.registry.sources')) {
+        websitesProvider.refresh(true).catch(error => {
+          console.error('Error reloading websites after sources changed:', error)
+        })
+      }
+      if (event.affectsConfiguration('llms-txt.tokens.charactersPerToken')) {
+        setCharactersPerToken(getCharactersPerToken())
+        websitesProvider.refresh().catch(error => {
+          console.error('Error reloading websites after the token estimate changed:', error)
+        })
+        favoritesProvider.refresh()
+      }
+      if (event.affectsConfiguration('llms-txt.favorites')) {
+        updatePoller.start()
+      }
+    })
+  )
 
-    // Register commands and set up event handlers
-    setupCommands(context, websitesProvider, favoritesProvider, websitesView)
+  // Initial load of websites; the view shows a loading state until it settles
+  // and a retry action if it fails
+  console.log('Starting initial website load...')
+  websitesProvider.refresh().then(() => {
+    console.log('Initial website load completed successfully')
   }).catch(error => {
     console.error('Error during initial website load:', error)
-    if (error instanceof Error) {
-      const errorMessage = `Failed to load websites: ${error.message}`
-      console.error(errorMessage)
-      vscode.window.showErrorMessage(errorMessage)
-    } else {
-      console.error('Failed to load websites: Unknown error')
-      vscode.window.showErrorMessage('Failed to load websites: Unknown error')
-    }
   })
 }
 
@@ -61,7 +308,14 @@ function setupCommands(
   context: vscode.ExtensionContext,
   websitesProvider: WebsitesProvider,
   favoritesProvider: FavoritesProvider,
-  treeView: vscode.TreeView<TreeItemType>
+  treeView: vscode.TreeView<TreeItemType>,
+  contentCache: ContentCache,
+  contentHistory: ContentHistory,
+  updatePoller: FavoritesUpdatePoller,
+  workspaceFavorites: WorkspaceFavoritesService,
+  customWebsites: CustomWebsites,
+  projectProvider: ProjectProvider,
+  previewManager: LlmsTxtPreviewManager
 ) {
   // Register the search command
   const searchDisposable = vscode.commands.registerCommand('llms-txt-extension.searchWebsites', async () => {
@@ -76,6 +330,20 @@ function setupCommands(
     // Initial items (show all websites)
     quickPick.items = websites.map(createQuickPickItem)
 
+    // Build a context bundle starting from the current results
+    const bundleButton: vscode.QuickInputButton = {
+      iconPath: new vscode.ThemeIcon('package'),
+      tooltip: 'Build Context Bundle from Results'
+    }
+    quickPick.buttons = [bundleButton]
+    quickPick.onDidTriggerButton(button => {
+      if (button === bundleButton) {
+        const results = quickPick.value ? websitesProvider.searchWebsites(quickPick.value) : []
+        quickPick.hide()
+        vscode.commands.executeCommand('llms-txt-extension.buildContextBundle', undefined, undefined, results)
+      }
+    })
+
     // Update items as user types with fuzzy search
     quickPick.onDidChangeValue(async value => {
       // Update tree view filter to sync the panel
@@ -132,13 +400,36 @@ function setupCommands(
           // If a website was selected, reveal it in the tree
           const treeItem = websitesProvider.getTreeItemForWebsite(selection.website)
           if (treeItem) {
-            treeView.reveal(treeItem, { expand: true, select: true })
+            treeView.reveal(treeItem, { select: true })
           }
           quickPick.hide()
         }
       }
     })
 
+    // Look up the file sizes of the highlighted website and show them once known
+    quickPick.onDidChangeActive(async ([active]) => {
+      const website = active?.website
+      if (!website) {
+        return
+      }
+      const urls = [website.llmsTxtUrl, website.llmsFullTxtUrl].filter((url): url is string => !!url)
+      if (urls.every(url => getKnownFileSize(url) !== undefined)) {
+        return
+      }
+
+      await Promise.all(urls.map(getFileSize))
+      const index = quickPick.items.indexOf(active)
+      if (index === -1 || urls.every(url => getKnownFileSize(url) === undefined)) {
+        return
+      }
+      const updated = { ...active, description: createQuickPickItem(website).description }
+      quickPick.items = quickPick.items.map(item => (item === active ? updated : item))
+      if (quickPick.activeItems[0] === active) {
+        quickPick.activeItems = [updated]
+      }
+    })
+
     // Handle button clicks
     quickPick.onDidTriggerItemButton(async event => {
       const item = event.item
@@ -155,26 +446,36 @@ function setupCommands(
 
       // LLMS.txt: Copy URL
       if (event.button === buttons[0] && website.llmsTxtUrl) {
+        if (!(await confirmLargeFile(website.llmsTxtUrl, `${website.name} - LLMS.txt`, 'Copy URL'))) {
+          return
+        }
         await vscode.env.clipboard.writeText(website.llmsTxtUrl)
         vscode.window.showInformationMessage(`Copied ${website.name} LLMS.txt URL to clipboard`)
       }
       // LLMS.txt: View Content
       else if (event.button === buttons[1] && website.llmsTxtUrl) {
         try {
-          await viewTxtContent(website.llmsTxtUrl, `${website.name} - LLMS.txt`)
+          if (await confirmLargeFile(website.llmsTxtUrl, `${website.name} - LLMS.txt`, 'Open')) {
+            await viewTxtContent(website.llmsTxtUrl, `${website.name} - LLMS.txt`)
+          }
         } catch (error) {
           vscode.window.showErrorMessage(`Failed to fetch LLMS.txt content: ${error}`)
         }
       }
       // LLMS Full.txt: Copy URL
       else if (event.button === buttons[2] && website.llmsFullTxtUrl) {
+        if (!(await confirmLargeFile(website.llmsFullTxtUrl, `${website.name} - LLMS Full.txt`, 'Copy URL'))) {
+          return
+        }
         await vscode.env.clipboard.writeText(website.llmsFullTxtUrl)
         vscode.window.showInformationMessage(`Copied ${website.name} LLMS Full.txt URL to clipboard`)
       }
       // LLMS Full.txt: View Content
       else if (event.button === buttons[3] && website.llmsFullTxtUrl) {
         try {
-          await viewTxtContent(website.llmsFullTxtUrl, `${website.name} - LLMS Full.txt`)
+          if (await confirmLargeFile(website.llmsFullTxtUrl, `${website.name} - LLMS Full.txt`, 'Open')) {
+            await viewTxtContent(website.llmsFullTxtUrl, `${website.name} - LLMS Full.txt`)
+          }
         } catch (error) {
           vscode.window.showErrorMessage(`Failed to fetch LLMS Full.txt content: ${error}`)
         }
@@ -194,13 +495,150 @@ function setupCommands(
     quickPick.show()
   })
 
+  // Register the search documentation contents command
+  const contentSearchService = new ContentSearchService(contentCache)
+  const searchContentsDisposable = vscode.commands.registerCommand('llms-txt-extension.searchContents', async () => {
+    const config = vscode.workspace.getConfiguration('llms-txt')
+    if (!config.get<boolean>('search.indexContents', false)) {
+      const enable = await vscode.window.showInformationMessage(
+        'Searching documentation contents indexes the LLMS.txt files you have downloaded. Enable it?',
+        'Enable'
+      )
+      if (enable !== 'Enable') {
+        return
+      }
+      await config.update('search.indexContents', true, vscode.ConfigurationTarget.Global)
+    }
+
+    const findWebsite = (url: string) =>
+      [...websitesProvider.getAllWebsites(), ...favoritesProvider.getFavorites()].find(
+        website => website.llmsTxtUrl === url || website.llmsFullTxtUrl === url
+      )
+
+    const downloadFavoritesButton: vscode.QuickInputButton = {
+      iconPath: new vscode.ThemeIcon('cloud-download'),
+      tooltip: 'Download favorites into the index'
+    }
+
+    const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { url?: string; line?: number; text?: string }>()
+    quickPick.placeholder = 'Search the contents of downloaded LLMS.txt files...'
+    quickPick.buttons = [downloadFavoritesButton]
+    // Results are already filtered by content, don't let the QuickPick filter them by label
+    quickPick.matchOnDescription = false
+
+    let searchVersion = 0
+    const runSearch = async (value: string) => {
+      const version = ++searchVersion
+      if (value.trim().length < 2) {
+        quickPick.busy = false
+        quickPick.items = []
+        return
+      }
+
+      quickPick.busy = true
+      try {
+        const matches = await contentSearchService.search(value)
+        if (version !== searchVersion) {
+          return
+        }
+        quickPick.items = matches.map(match => {
+          const website = findWebsite(match.url)
+          const file = match.url.split('/').pop()
+          return {
+            label: match.snippet || '(empty line)',
+            description: [website?.name ?? vscode.Uri.parse(match.url).authority, match.section]
+              .filter(Boolean)
+              .join(' › '),
+            detail: `${file} · line ${match.line + 1}`,
+            alwaysShow: true,
+            url: match.url,
+            line: match.line,
+            text: match.text
+          }
+        })
+      } finally {
+        // A newer search owns the busy state
+        if (version === searchVersion) {
+          quickPick.busy = false
+        }
+      }
+    }
+
+    // Search once the user pauses typing, rather than on every keystroke
+    let searchTimer: NodeJS.Timeout | undefined
+    quickPick.onDidChangeValue(value => {
+      clearTimeout(searchTimer)
+      searchTimer = setTimeout(() => {
+        runSearch(value).catch(error => console.error('Error searching contents:', error))
+      }, 150)
+    })
+
+    quickPick.onDidTriggerButton(async button => {
+      if (button !== downloadFavoritesButton) {
+        return
+      }
+
+      const urls = favoritesProvider
+        .getFavorites()
+        .flatMap(website => [website.llmsTxtUrl, website.llmsFullTxtUrl])
+        .filter((url): url is string => !!url)
+      if (urls.length === 0) {
+        vscode.window.showInformationMessage('Add favorites first to download their LLMS.txt files')
+        return
+      }
+
+      quickPick.busy = true
+      const results = await Promise.allSettled(urls.map(url => fetchTxtContent(url)))
+      const failed = results.filter(result => result.status === 'rejected').length
+      vscode.window.showInformationMessage(
+        `Indexed ${urls.length - failed} of ${urls.length} favorite LLMS.txt files`
+      )
+      try {
+        await runSearch(quickPick.value)
+      } finally {
+        quickPick.busy = false
+      }
+    })
+
+    quickPick.onDidAccept(async () => {
+      const selection = quickPick.selectedItems[0]
+      if (!selection?.url) {
+        return
+      }
+
+      quickPick.hide()
+      const website = findWebsite(selection.url)
+      const fileTitle = selection.url === website?.llmsTxtUrl
+        ? 'LLMS.txt'
+        : selection.url === website?.llmsFullTxtUrl
+          ? 'LLMS Full.txt'
+          : selection.url.split('/').pop()
+      const title = `${website?.name ?? vscode.Uri.parse(selection.url).authority} - ${fileTitle}`
+      try {
+        await viewTxtContent(selection.url, title, selection.line, selection.text)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to open search result: ${error}`)
+      }
+    })
+
+    quickPick.onDidHide(() => {
+      clearTimeout(searchTimer)
+      quickPick.dispose()
+    })
+    quickPick.show()
+
+    if ((await contentSearchService.getIndexedCount()) === 0) {
+      quickPick.placeholder = 'No downloaded LLMS.txt files yet: view some, or download your favorites with the button above'
+    }
+  })
+
   // Register clear search command
   const clearSearchDisposable = vscode.commands.registerCommand('llms-txt-extension.clearSearch', () => {
     websitesProvider.clearSearch()
     vscode.window.showInformationMessage('Search cleared')
   })
 
-  context.subscriptions.push(treeView, searchDisposable, clearSearchDisposable)
+  context.subscriptions.push(treeView, searchDisposable, searchContentsDisposable, clearSearchDisposable)
 
   // Track the collapsed state to toggle between collapse all and expand all
   let isCollapsed = false
@@ -230,8 +668,210 @@ function setupCommands(
 
   // Register the refresh command
   context.subscriptions.push(
-    vscode.commands.registerCommand('llms-txt-extension.refreshWebsites', () => {
-      websitesProvider.refresh();
+    vscode.commands.registerCommand('llms-txt-extension.refreshWebsites', async () => {
+      try {
+        clearOutlineCache()
+        clearFileSizes()
+        await websitesProvider.refresh(true)
+      } catch (error) {
+        console.error('Error refreshing websites:', error)
+      }
+    })
+  )
+
+  // Register the command adding a website that is not in the registry
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.addWebsite', async () => {
+      const input = await vscode.window.showInputBox({
+        title: 'Add Website',
+        prompt: 'Domain or docs URL of the website, e.g. example.com or https://example.com/docs',
+        validateInput: value => (parseWebsiteInput(value) ? undefined : 'Enter a domain or an http(s) URL')
+      })
+      const url = input ? parseWebsiteInput(input) : undefined
+      if (!url) {
+        return
+      }
+
+      const existing = websitesProvider
+        .getAllWebsites()
+        .find(website => getDomainKey(website.domain) === getDomainKey(url.origin))
+      if (existing && customWebsites.find(existing.domain)) {
+        vscode.window.showInformationMessage(`You already added ${existing.name}. Use Edit Website to change it.`)
+        return
+      }
+      if (existing) {
+        const choice = await vscode.window.showWarningMessage(
+          `${url.host} is already listed as ${existing.name}. Add your own entry, which replaces it?`,
+          { modal: true },
+          'Add Anyway'
+        )
+        if (choice !== 'Add Anyway') {
+          return
+        }
+      }
+
+      const discovered = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Looking for llms.txt on ${url.host}...`,
+          cancellable: true
+        },
+        async (_progress, token) => {
+          const controller = new AbortController()
+          const subscription = token.onCancellationRequested(() => controller.abort())
+          try {
+            const result = await discoverLlmsTxt(url, controller.signal)
+            return token.isCancellationRequested ? undefined : result
+          } finally {
+            subscription.dispose()
+          }
+        }
+      )
+      if (!discovered) {
+        return
+      }
+
+      let llmsTxtUrl = discovered.llmsTxtUrl
+      if (!llmsTxtUrl && !discovered.llmsFullTxtUrl) {
+        const searched = getDiscoveryUrls(url, 'llms.txt').map(candidate => new URL(candidate).pathname)
+        const choice = await vscode.window.showWarningMessage(
+          `No llms.txt found on ${url.host}. Looked at ${searched.join(', ')}.`,
+          'Enter URL'
+        )
+        if (choice !== 'Enter URL') {
+          return
+        }
+        const input = await vscode.window.showInputBox({
+          prompt: 'URL of the website\'s llms.txt',
+          value: `${url.origin}/llms.txt`,
+          validateInput: value => (parseWebsiteInput(value) ? undefined : 'Enter an http(s) URL')
+        })
+        // Store the absolute URL, as the input may leave out the scheme
+        llmsTxtUrl = input ? parseWebsiteInput(input)?.href : undefined
+        if (!llmsTxtUrl) {
+          return
+        }
+      }
+
+      const name = await vscode.window.showInputBox({
+        prompt: 'Name of the website',
+        value: discovered.title ?? url.hostname.replace(/^www\./, ''),
+        validateInput: value => (value.trim() ? undefined : 'Enter a name')
+      })
+      if (!name) {
+        return
+      }
+      const description = await vscode.window.showInputBox({
+        prompt: 'Description of the website (optional)',
+        value: discovered.summary ?? ''
+      })
+      if (description === undefined) {
+        return
+      }
+      const category = await pickWebsiteCategory(websitesProvider, `Category of ${name.trim()}`)
+      if (!category) {
+        return
+      }
+
+      await customWebsites.add({
+        name: name.trim(),
+        domain: discovered.domain,
+        description: description.trim(),
+        category: category.slug,
+        llmsTxtUrl,
+        llmsFullTxtUrl: discovered.llmsFullTxtUrl
+      })
+      const files = [llmsTxtUrl ? 'llms.txt' : '', discovered.llmsFullTxtUrl ? 'llms-full.txt' : ''].filter(Boolean)
+      vscode.window.showInformationMessage(`Added ${name.trim()} with its ${files.join(' and ')}`)
+    })
+  )
+
+  // Register the command editing a website added with Add Website
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.editCustomWebsite', async (item: TreeItemType) => {
+      if (!(item instanceof WebsiteItem)) {
+        return
+      }
+      const website = customWebsites.find(item.website.domain)
+      if (!website) {
+        vscode.window.showWarningMessage(`${item.website.name} comes from the registry and cannot be edited`)
+        return
+      }
+
+      type EditableField = 'name' | 'description' | 'category' | 'llmsTxtUrl' | 'llmsFullTxtUrl'
+      const fields: (vscode.QuickPickItem & { field: EditableField })[] = [
+        { label: 'Name', detail: website.name, field: 'name' },
+        { label: 'Description', detail: website.description || 'None', field: 'description' },
+        { label: 'Category', detail: website.category || 'Uncategorized', field: 'category' },
+        { label: 'LLMS.txt URL', detail: website.llmsTxtUrl || 'None', field: 'llmsTxtUrl' },
+        { label: 'LLMS Full.txt URL', detail: website.llmsFullTxtUrl || 'None', field: 'llmsFullTxtUrl' }
+      ]
+      const choice = await vscode.window.showQuickPick(fields, { placeHolder: `Edit ${website.name}` })
+      if (!choice) {
+        return
+      }
+
+      let value: string | undefined
+      if (choice.field === 'category') {
+        const category = await pickWebsiteCategory(websitesProvider, `Category of ${website.name}`)
+        if (!category) {
+          return
+        }
+        value = category.slug ?? ''
+      } else {
+        const isUrl = choice.field === 'llmsTxtUrl' || choice.field === 'llmsFullTxtUrl'
+        value = await vscode.window.showInputBox({
+          prompt: isUrl ? `${choice.label} (leave empty if the website has none)` : choice.label,
+          value: website[choice.field] ?? '',
+          validateInput: input => {
+            if (choice.field === 'name' && !input.trim()) {
+              return 'Enter a name'
+            }
+            return isUrl && input.trim() && !parseWebsiteInput(input) ? 'Enter an http(s) URL' : undefined
+          }
+        })
+        if (value === undefined) {
+          return
+        }
+      }
+
+      // The description is required by the website type, the other fields are left out when empty.
+      // URLs are stored absolute, as the input may leave out the scheme
+      const edited = choice.field === 'description'
+        ? value.trim()
+        : choice.field === 'llmsTxtUrl' || choice.field === 'llmsFullTxtUrl'
+          ? parseWebsiteInput(value)?.href
+          : value.trim() || undefined
+      await customWebsites.update(website.domain, { ...website, [choice.field]: edited })
+    })
+  )
+
+  // Register the command removing a website added with Add Website
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.removeCustomWebsite', async (item: TreeItemType) => {
+      if (!(item instanceof WebsiteItem)) {
+        return
+      }
+      const website = customWebsites.find(item.website.domain)
+      if (!website) {
+        vscode.window.showWarningMessage(`${item.website.name} comes from the registry and cannot be removed`)
+        return
+      }
+      // Keep the favorite when the registry lists the same website
+      const removeFavorite = favoritesProvider.isFavorite(website) && !websitesProvider.isListedInRegistry(website)
+      const choice = await vscode.window.showWarningMessage(
+        `Remove ${website.name} from your websites?`,
+        { modal: true, detail: removeFavorite ? 'It is also removed from your favorites.' : undefined },
+        'Remove'
+      )
+      if (choice !== 'Remove') {
+        return
+      }
+
+      await customWebsites.remove(website.domain)
+      if (removeFavorite) {
+        await favoritesProvider.removeFavorites([website])
+      }
     })
   )
 
@@ -239,9 +879,13 @@ function setupCommands(
   context.subscriptions.push(
     vscode.commands.registerCommand('llms-txt-extension.addToFavorites', async (item: TreeItemType) => {
       if (item instanceof WebsiteItem) {
-        await favoritesProvider.addFavorite(item.website)
-        // Refresh both views to update the UI
-        websitesProvider.refresh()
+        // Ask for the group only once the user has created groups
+        const groupId = favoritesProvider.getGroups().length > 1
+          ? await pickFavoriteGroup(favoritesProvider, `Add ${item.website.name} to which group?`)
+          : DEFAULT_GROUP_ID
+        if (groupId) {
+          await favoritesProvider.addFavorite(item.website, groupId)
+        }
       }
     })
   )
@@ -251,12 +895,102 @@ function setupCommands(
     vscode.commands.registerCommand('llms-txt-extension.removeFromFavorites', async (item: TreeItemType) => {
       if (item instanceof WebsiteItem) {
         await favoritesProvider.removeFavorite(item.website)
-        // Refresh both views to update the UI
-        websitesProvider.refresh()
       }
     })
   )
 
+  // Register the command accepting the registry's new URLs for changed favorites
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'llms-txt-extension.updateFavoriteFromRegistry',
+      async (item?: FavoriteTreeItemType, selectedItems?: FavoriteTreeItemType[]) => {
+        const websites = item
+          ? (selectedItems ?? [item])
+              .filter((selected): selected is WebsiteItem => selected instanceof WebsiteItem)
+              .map(selected => selected.website)
+          : favoritesProvider.getIssues().flatMap(issue => (issue.current ? [issue.current] : []))
+        if (websites.length === 0) {
+          vscode.window.showInformationMessage('All favorites match the registry')
+          return
+        }
+        await favoritesProvider.acceptRegistryChanges(websites)
+      }
+    )
+  )
+
+  // Register the command removing the favorites the registry no longer lists
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.removeMissingFavorites', async () => {
+      const missing = favoritesProvider.getIssues().filter(issue => issue.kind === 'missing')
+      if (missing.length === 0) {
+        vscode.window.showInformationMessage('The registry lists all favorites')
+        return
+      }
+      const names = missing.map(issue => issue.favorite.name).join(', ')
+      const choice = await vscode.window.showWarningMessage(
+        `Remove ${missing.length === 1 ? 'the favorite' : `${missing.length} favorites`} the registry no longer lists?`,
+        { modal: true, detail: names },
+        'Remove'
+      )
+      if (choice === 'Remove') {
+        await favoritesProvider.removeFavorites(missing.map(issue => issue.favorite))
+      }
+    })
+  )
+
+  // Register the favorite group commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.createFavoriteGroup', async () => {
+      const name = await promptGroupName()
+      if (name) {
+        await favoritesProvider.createGroup(name)
+      }
+    }),
+    vscode.commands.registerCommand('llms-txt-extension.renameFavoriteGroup', async (item: FavoriteTreeItemType) => {
+      if (item instanceof FavoriteGroupItem) {
+        const name = await promptGroupName(item.group.name)
+        if (name) {
+          await favoritesProvider.renameGroup(item.group.id, name)
+        }
+      }
+    }),
+    vscode.commands.registerCommand('llms-txt-extension.deleteFavoriteGroup', async (item: FavoriteTreeItemType) => {
+      if (!(item instanceof FavoriteGroupItem)) {
+        return
+      }
+      const defaultGroup = favoritesProvider.getGroups().find(group => group.id === DEFAULT_GROUP_ID)
+      if (item.group.websites.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+          `Delete the group "${item.group.name}"? Its ${item.group.websites.length} favorites move to "${defaultGroup?.name}".`,
+          { modal: true },
+          'Delete'
+        )
+        if (choice !== 'Delete') {
+          return
+        }
+      }
+      await favoritesProvider.deleteGroup(item.group.id)
+    }),
+    vscode.commands.registerCommand(
+      'llms-txt-extension.moveToFavoriteGroup',
+      async (item: FavoriteTreeItemType, selectedItems?: FavoriteTreeItemType[]) => {
+        const websites = (selectedItems ?? [item])
+          .filter((selected): selected is WebsiteItem => selected instanceof WebsiteItem)
+          .map(selected => selected.website)
+        if (websites.length === 0) {
+          return
+        }
+        const groupId = await pickFavoriteGroup(
+          favoritesProvider,
+          websites.length === 1 ? `Move ${websites[0].name} to` : `Move ${websites.length} favorites to`
+        )
+        if (groupId) {
+          await favoritesProvider.moveFavorites(websites, groupId)
+        }
+      }
+    )
+  )
+
   // Register the copy LLMS.txt URL command
   context.subscriptions.push(
     vscode.commands.registerCommand('llms-txt-extension.copyLlmsTxtUrl', async (item: TreeItemType) => {
@@ -267,6 +1001,9 @@ function setupCommands(
         vscode.window.showErrorMessage(`No LLMS.txt URL available for ${item.website.name}`);
         return;
       }
+      if (!(await confirmLargeFile(item.website.llmsTxtUrl, `${item.website.name} - LLMS.txt`, 'Copy URL'))) {
+        return;
+      }
       await vscode.env.clipboard.writeText(item.website.llmsTxtUrl);
       vscode.window.showInformationMessage('LLMS.txt URL copied to clipboard');
     })
@@ -282,6 +1019,9 @@ function setupCommands(
         vscode.window.showErrorMessage(`No LLMS Full.txt URL available for ${item.website.name}`);
         return;
       }
+      if (!(await confirmLargeFile(item.website.llmsFullTxtUrl, `${item.website.name} - LLMS Full.txt`, 'Copy URL'))) {
+        return;
+      }
       await vscode.env.clipboard.writeText(item.website.llmsFullTxtUrl);
       vscode.window.showInformationMessage('LLMS Full.txt URL copied to clipboard');
     })
@@ -298,7 +1038,15 @@ function setupCommands(
           vscode.window.showErrorMessage(`No LLMS.txt content available for ${item.website.name}`);
           return;
         }
+        if (!(await confirmLargeFile(item.website.llmsTxtUrl, `${item.website.name} - LLMS.txt`, 'Open'))) {
+          return;
+        }
+        if (getOpenInPreview()) {
+          await previewManager.show({ url: item.website.llmsTxtUrl, title: `${item.website.name} - LLMS.txt` }, item.website);
+          return;
+        }
         await viewTxtContent(item.website.llmsTxtUrl, `${item.website.name} - LLMS.txt`);
+        await favoritesProvider.clearUpdates(item.website.domain, item.website.llmsTxtUrl);
       } catch (error) {
         vscode.window.showErrorMessage(`Failed to view LLMS.txt content: ${error}`);
       }
@@ -316,30 +1064,1099 @@ function setupCommands(
           vscode.window.showErrorMessage(`No LLMS Full.txt content available for ${item.website.name}`);
           return;
         }
+        if (!(await confirmLargeFile(item.website.llmsFullTxtUrl, `${item.website.name} - LLMS Full.txt`, 'Open'))) {
+          return;
+        }
+        if (getOpenInPreview()) {
+          await previewManager.show({ url: item.website.llmsFullTxtUrl, title: `${item.website.name} - LLMS Full.txt` }, item.website);
+          return;
+        }
         await viewTxtContent(item.website.llmsFullTxtUrl, `${item.website.name} - LLMS Full.txt`);
+        await favoritesProvider.clearUpdates(item.website.domain, item.website.llmsFullTxtUrl);
       } catch (error) {
         vscode.window.showErrorMessage(`Failed to view LLMS Full.txt content: ${error}`);
       }
     })
   )
 
-  // Register the visit website command
+  // Register the open linked doc command, used when clicking a link in a website's sections
   context.subscriptions.push(
-    vscode.commands.registerCommand('llms-txt-extension.visitWebsite', (item: TreeItemType) => {
-      if (item instanceof WebsiteItem) {
-        vscode.env.openExternal(vscode.Uri.parse(`${item.website.domain}`));
+    vscode.commands.registerCommand('llms-txt-extension.openLinkedDoc', async (item: TreeItemType) => {
+      if (!(item instanceof LinkItem)) {
+        return
+      }
+      try {
+        const title = `${item.parent.parent.website.name} - ${item.link.title}`
+        if (getOpenInPreview()) {
+          await previewManager.show({ url: item.link.url, title }, item.parent.parent.website)
+        } else {
+          await viewTxtContent(item.link.url, title)
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to open ${item.link.title}: ${error}`)
       }
     })
   )
 
-  // Register the category filter command
+  // Register the preview command, for a website, a linked doc or an open LLMS.txt document
   context.subscriptions.push(
-    vscode.commands.registerCommand('llms-txt-extension.filterByCategory', async () => {
-      const categories = websitesProvider.getCategories()
-      const quickPick = vscode.window.createQuickPick()
+    vscode.commands.registerCommand('llms-txt-extension.previewLlmsTxt', async (target?: TreeItemType | vscode.Uri) => {
+      try {
+        if (target instanceof WebsiteItem) {
+          const { website } = target
+          const url = website.llmsTxtUrl || website.llmsFullTxtUrl
+          if (!url) {
+            vscode.window.showErrorMessage(`No LLMS.txt content available for ${website.name}`)
+            return
+          }
+          const title = `${website.name} - ${url === website.llmsTxtUrl ? 'LLMS.txt' : 'LLMS Full.txt'}`
+          if (await confirmLargeFile(url, title, 'Preview')) {
+            await previewManager.show({ url, title }, website)
+          }
+        } else if (target instanceof LinkItem) {
+          const { website } = target.parent.parent
+          await previewManager.show({ url: target.link.url, title: `${website.name} - ${target.link.title}` }, website)
+        } else {
+          const uri = target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri
+          const url = uri ? getSourceUrl(uri) : undefined
+          if (!uri || !url) {
+            vscode.window.showInformationMessage('Open an LLMS.txt file from the Websites view to preview it')
+            return
+          }
+          const website = websitesProvider
+            .getAllWebsites()
+            .find(candidate => candidate.llmsTxtUrl === url || candidate.llmsFullTxtUrl === url)
+          await previewManager.show({ url, title: getContentTitle(uri) }, website)
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to preview LLMS.txt content: ${error}`)
+      }
+    })
+  )
 
-      quickPick.items = categories.map(category => ({
-        label: category,
+  // Register the fetch all linked docs command, which assembles the docs an LLMS.txt links to into one
+  // document, for a website or an open LLMS.txt document
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.fetchLinkedDocs', async (target?: TreeItemType | vscode.Uri) => {
+      const uri = target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri
+      const indexUrl = target instanceof WebsiteItem ? target.website.llmsTxtUrl : uri && getSourceUrl(uri)
+      if (!indexUrl) {
+        vscode.window.showInformationMessage('Select a website with an LLMS.txt, or open one, to fetch its linked docs')
+        return
+      }
+      const website = target instanceof WebsiteItem
+        ? target.website
+        : websitesProvider.getAllWebsites().find(candidate => candidate.llmsTxtUrl === indexUrl)
+      const name = website?.name ?? vscode.Uri.parse(indexUrl).authority
+
+      if (website?.llmsFullTxtUrl) {
+        const choice = await vscode.window.showInformationMessage(
+          `${name} publishes an LLMS Full.txt, which usually holds the same docs`,
+          'Open LLMS Full.txt',
+          'Fetch Anyway'
+        )
+        if (choice === 'Open LLMS Full.txt') {
+          if (await confirmLargeFile(website.llmsFullTxtUrl, `${name} - LLMS Full.txt`, 'Open')) {
+            await viewTxtContent(website.llmsFullTxtUrl, `${name} - LLMS Full.txt`)
+          }
+          return
+        }
+        if (choice !== 'Fetch Anyway') {
+          return
+        }
+      }
+
+      try {
+        const docs = getLinkedDocs(await fetchTxtContent(indexUrl), indexUrl)
+        if (docs.length === 0) {
+          vscode.window.showInformationMessage(`The LLMS.txt of ${name} links to no markdown or text docs`)
+          return
+        }
+        if (docs.length > MANY_LINKED_DOCS) {
+          const choice = await vscode.window.showWarningMessage(
+            `Fetch the ${docs.length} docs linked from the LLMS.txt of ${name}?`,
+            { modal: true },
+            'Fetch'
+          )
+          if (choice !== 'Fetch') {
+            return
+          }
+        }
+
+        // Pages go through the content cache, so fetching them again only revalidates them
+        const fetched = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Fetching the docs linked from ${name}`, cancellable: true },
+          async (progress, token) => {
+            const controller = new AbortController()
+            token.onCancellationRequested(() => controller.abort())
+            const results = await fetchLinkedDocs(docs, fetchTxtContent, {
+              signal: controller.signal,
+              onFetched: (_doc, completed) => {
+                progress.report({ message: `${completed}/${docs.length}`, increment: 100 / docs.length })
+              }
+            })
+            return token.isCancellationRequested ? undefined : results
+          }
+        )
+        if (!fetched) {
+          return
+        }
+
+        const markdown = assembleLinkedDocs(name, indexUrl, fetched)
+        const document = await vscode.workspace.openTextDocument({ content: markdown, language: LLMS_TXT_LANGUAGE_ID })
+        await vscode.window.showTextDocument(document)
+
+        const failed = fetched.filter(doc => doc.error !== undefined).length
+        const summary = `Assembled ${fetched.length - failed} linked docs from ${name}, about ${formatTokens(estimateTokens(markdown))}`
+        if (failed > 0) {
+          vscode.window.showWarningMessage(`${summary}. ${failed} could not be fetched and are listed at the end.`)
+        } else {
+          vscode.window.showInformationMessage(summary)
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to fetch the linked docs of ${name}: ${error instanceof Error ? error.message : error}`)
+      }
+    })
+  )
+
+  // Register the validate LLMS.txt command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.validateLlmsTxt', async (item: TreeItemType) => {
+      if (!(item instanceof WebsiteItem)) {
+        return
+      }
+      const url = item.website.llmsTxtUrl
+      if (!url) {
+        vscode.window.showErrorMessage(`No LLMS.txt URL available for ${item.website.name}`)
+        return
+      }
+
+      try {
+        const report = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Validating ${item.website.name} LLMS.txt...` },
+          async () => formatValidationReport(item.website.name, url, validateLlmsTxt(await fetchTxtContent(url)))
+        )
+        const document = await vscode.workspace.openTextDocument({ content: report, language: 'markdown' })
+        await vscode.window.showTextDocument(document, { preview: false })
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to validate LLMS.txt: ${error}`)
+      }
+    })
+  )
+
+  // Register the add to project command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.addToProject', async (item: TreeItemType) => {
+      if (!(item instanceof WebsiteItem)) {
+        return
+      }
+      const website = item.website
+
+      const files = [
+        { label: 'llms.txt', fileKind: 'llms.txt' as LlmsFileKind, url: website.llmsTxtUrl, picked: true },
+        { label: 'llms-full.txt', fileKind: 'llms-full.txt' as LlmsFileKind, url: website.llmsFullTxtUrl, picked: false }
+      ]
+        .filter(file => !!file.url)
+        .map(file => ({ ...file, description: file.url }))
+      if (files.length === 0) {
+        vscode.window.showErrorMessage(`No LLMS.txt files available for ${website.name}`)
+        return
+      }
+
+      const selection = files.length === 1
+        ? files
+        : await vscode.window.showQuickPick(files, {
+          canPickMany: true,
+          placeHolder: `Select the files of ${website.name} to add to the project`
+        })
+      if (!selection || selection.length === 0) {
+        return
+      }
+
+      const workspaceFolder = await pickWorkspaceFolder(`Select the folder to add ${website.name} docs to`)
+      if (!workspaceFolder) {
+        return
+      }
+
+      const projectDocs = new ProjectDocsService(workspaceFolder)
+      let results: PinResult[]
+      try {
+        results = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Adding ${website.name} docs to the project...` },
+          () => projectDocs.pin(website, selection.map(file => file.fileKind))
+        )
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to add ${website.name} docs: ${error instanceof Error ? error.message : error}`)
+        return
+      }
+
+      const failed = results.filter(result => result.status === 'failed')
+      if (failed.length > 0) {
+        vscode.window.showErrorMessage(
+          `Failed to add ${failed.map(result => result.kind).join(', ')} for ${website.name}: ${failed[0].error}`
+        )
+      }
+      const pinned = results.filter(result => result.status !== 'failed')
+      if (pinned.length > 0) {
+        const open = await vscode.window.showInformationMessage(
+          `Added ${pinned.map(result => result.kind).join(' and ')} for ${website.name} to ${vscode.workspace.asRelativePath(projectDocs.getDocsFolderUri())}`,
+          'Open'
+        )
+        if (open === 'Open') {
+          await vscode.window.showTextDocument(pinned[0].uri)
+        }
+      }
+    })
+  )
+
+  // Register the command scanning the workspace's manifests again
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.scanProjectDependencies', async () => {
+      await projectProvider.scan()
+    })
+  )
+
+  // Register the command mapping a dependency to the website documenting it
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.mapDependency', async () => {
+      const dependencies = projectProvider.getDependencies()
+      if (dependencies.length === 0) {
+        vscode.window.showInformationMessage('No dependencies found in the manifests of this workspace')
+        return
+      }
+
+      const recommendations = projectProvider.getRecommendations()
+      const dependency = await vscode.window.showQuickPick(
+        [...dependencies]
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(candidate => ({
+            label: candidate.name,
+            description: `${candidate.ecosystem} · ${
+              recommendations.find(recommendation => recommendation.dependencies.includes(candidate))?.website.name ??
+              'no website'
+            }`,
+            detail: candidate.manifests.join(', '),
+            dependency: candidate
+          })),
+        { placeHolder: 'Select the dependency to map to a website', matchOnDetail: true }
+      )
+      if (!dependency) {
+        return
+      }
+
+      const website = await vscode.window.showQuickPick(
+        [
+          { label: '$(circle-slash) No Website', description: 'Never recommend a website for it', domain: null as string | null },
+          ...websitesProvider.getAllWebsites().map(candidate => ({
+            label: candidate.name,
+            description: candidate.domain,
+            domain: candidate.domain as string | null
+          }))
+        ],
+        { placeHolder: `Select the website documenting ${dependency.label}`, matchOnDescription: true }
+      )
+      if (!website) {
+        return
+      }
+      await updateDependencyMapping({ [dependency.label]: website.domain })
+    })
+  )
+
+  // Register the command hiding a recommendation of the This Project view
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.hideProjectRecommendation', async (item: TreeItemType) => {
+      if (!(item instanceof WebsiteItem)) {
+        return
+      }
+      const recommendation = projectProvider
+        .getRecommendations()
+        .find(candidate => candidate.website.domain === item.website.domain)
+      if (!recommendation) {
+        return
+      }
+
+      const names = recommendation.dependencies.map(dependency => dependency.name)
+      await updateDependencyMapping(Object.fromEntries(names.map(name => [name, null])))
+      const choice = await vscode.window.showInformationMessage(
+        `${item.website.name} is no longer recommended for ${names.join(', ')}`,
+        'Undo'
+      )
+      if (choice === 'Undo') {
+        await updateDependencyMapping(Object.fromEntries(names.map(name => [name, undefined])))
+      }
+    })
+  )
+
+  // Register the update project docs command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.updateProjectDocs', async () => {
+      const workspaceFolder = await pickWorkspaceFolder('Select the folder whose docs to update')
+      if (!workspaceFolder) {
+        return
+      }
+
+      const projectDocs = new ProjectDocsService(workspaceFolder)
+      if (!(await projectDocs.hasLock())) {
+        vscode.window.showInformationMessage('No docs have been added to this project yet. Use "Add to Project" on a website first.')
+        return
+      }
+
+      let results: PinResult[]
+      try {
+        results = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: 'Updating project docs...' },
+          () => projectDocs.update()
+        )
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to update project docs: ${error instanceof Error ? error.message : error}`)
+        return
+      }
+
+      const changed = results.filter(result => result.status === 'changed')
+      const failed = results.filter(result => result.status === 'failed')
+      const summary = `${changed.length} of ${results.length} project docs changed` +
+        (failed.length > 0 ? `, ${failed.length} failed` : '')
+
+      const action = await vscode.window.showInformationMessage(summary, 'Show Details')
+      if (action !== 'Show Details') {
+        return
+      }
+
+      const icons: Record<PinResult['status'], string> = {
+        added: '$(add)',
+        changed: '$(diff-modified)',
+        unchanged: '$(check)',
+        failed: '$(error)'
+      }
+      const pick = await vscode.window.showQuickPick(
+        results.map(result => ({
+          label: `${icons[result.status]} ${result.siteName} · ${result.kind}`,
+          description: result.status,
+          detail: result.error ?? vscode.workspace.asRelativePath(result.uri),
+          result
+        })),
+        { placeHolder: 'Select a doc to open' }
+      )
+      if (pick && pick.result.status !== 'failed') {
+        await vscode.window.showTextDocument(pick.result.uri)
+      }
+    })
+  )
+
+  // Register the generate LLMS.txt command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.generateLlmsTxt', async () => {
+      const workspaceFolder = await pickWorkspaceFolder('Select the folder to generate an llms.txt for')
+      if (!workspaceFolder) {
+        return
+      }
+
+      const scan = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Scanning workspace docs...' },
+        () => scanWorkspace(workspaceFolder)
+      )
+      if (scan.folders.size === 0) {
+        vscode.window.showInformationMessage('No markdown docs found in this workspace')
+        return
+      }
+
+      // Start from the choices made on the previous run
+      const settingsKey = `generatorSettings:${workspaceFolder.uri.toString()}`
+      const previous = context.workspaceState.get<GeneratorSettings>(settingsKey)
+
+      const folderPicks = await vscode.window.showQuickPick(
+        Array.from(scan.folders.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([folder, docs]) => ({
+            label: folder === '.' ? '(root)' : folder,
+            description: `${docs.length} file${docs.length === 1 ? '' : 's'}`,
+            detail: previous?.sections[folder] ? `Section: ${previous.sections[folder]}` : undefined,
+            picked: previous ? folder in previous.sections : folder === '.' || /^docs?(\/|$)/i.test(folder),
+            folder
+          })),
+        { canPickMany: true, placeHolder: 'Select the folders to list in llms.txt' }
+      )
+      if (!folderPicks || folderPicks.length === 0) {
+        return
+      }
+
+      const sections: Record<string, string> = {}
+      for (const pick of folderPicks) {
+        const title = await vscode.window.showInputBox({
+          prompt: `Section for docs in ${pick.label} (use "Optional" for secondary docs)`,
+          value: previous?.sections[pick.folder] ?? suggestSectionTitle(pick.folder)
+        })
+        if (title === undefined) {
+          return
+        }
+        if (title.trim()) {
+          sections[pick.folder] = title.trim()
+        }
+      }
+
+      const baseUrl = await vscode.window.showInputBox({
+        prompt: 'Base URL the docs are published at, which document paths are appended to',
+        placeHolder: 'https://github.com/owner/repo/blob/main',
+        value: previous?.baseUrl || scan.homepage || '',
+        // Relative links would be flagged by the validator, as they do not work outside the site
+        validateInput: value => (/^https?:\/\/[^/\s]+/i.test(value.trim()) ? undefined : 'Enter an http(s) URL')
+      })
+      if (baseUrl === undefined) {
+        return
+      }
+
+      const fullTxtOptions = [
+        { label: 'llms.txt only', includeFullTxt: false },
+        { label: 'llms.txt and llms-full.txt', description: 'Concatenate the docs into llms-full.txt', includeFullTxt: true }
+      ]
+      // Offer the previous choice first
+      if (previous?.includeFullTxt) {
+        fullTxtOptions.reverse()
+      }
+      const fullTxtPick = await vscode.window.showQuickPick(fullTxtOptions, { placeHolder: 'Also generate llms-full.txt?' })
+      if (!fullTxtPick) {
+        return
+      }
+
+      const settings: GeneratorSettings = { sections, baseUrl: baseUrl.trim(), includeFullTxt: fullTxtPick.includeFullTxt }
+      await context.workspaceState.update(settingsKey, settings)
+
+      // Merge into an existing llms.txt so hand edits survive re-runs
+      const llmsTxtUri = vscode.Uri.joinPath(workspaceFolder.uri, 'llms.txt')
+      const generated = buildLlmsTxt(scan, settings)
+      let existing: string | undefined
+      try {
+        existing = Buffer.from(await vscode.workspace.fs.readFile(llmsTxtUri)).toString('utf8')
+      } catch {
+        existing = undefined
+      }
+
+      let message: string
+      if (existing !== undefined) {
+        const merged = mergeLlmsTxt(existing, generated)
+        await vscode.workspace.fs.writeFile(llmsTxtUri, Buffer.from(merged.content, 'utf8'))
+        message = `Added ${merged.added} new link${merged.added === 1 ? '' : 's'} to llms.txt`
+      } else {
+        await vscode.workspace.fs.writeFile(llmsTxtUri, Buffer.from(serializeLlmsTxt(generated), 'utf8'))
+        message = 'Generated llms.txt'
+      }
+
+      if (settings.includeFullTxt) {
+        const fullTxtUri = vscode.Uri.joinPath(workspaceFolder.uri, 'llms-full.txt')
+        const fullTxt = await buildLlmsFullTxt(scan, settings)
+        // llms-full.txt is regenerated as a whole, so ask before replacing edits made since the last run
+        const fullTxtKey = `generatedFullTxt:${workspaceFolder.uri.toString()}`
+        let existingFullTxt: string | undefined
+        try {
+          existingFullTxt = Buffer.from(await vscode.workspace.fs.readFile(fullTxtUri)).toString('utf8')
+        } catch {
+          existingFullTxt = undefined
+        }
+        const edited = existingFullTxt !== undefined &&
+          existingFullTxt !== fullTxt &&
+          hashContent(existingFullTxt) !== context.workspaceState.get<string>(fullTxtKey)
+        const overwrite = !edited || (await vscode.window.showWarningMessage(
+          'llms-full.txt was changed since it was last generated. Replace it with the generated content?',
+          { modal: true },
+          'Replace'
+        )) === 'Replace'
+
+        if (overwrite) {
+          await vscode.workspace.fs.writeFile(fullTxtUri, Buffer.from(fullTxt, 'utf8'))
+          await context.workspaceState.update(fullTxtKey, hashContent(fullTxt))
+          message += ' and llms-full.txt'
+        } else {
+          message += ', kept llms-full.txt as it was'
+        }
+      }
+
+      await vscode.window.showTextDocument(llmsTxtUri)
+      vscode.window.showInformationMessage(message)
+    })
+  )
+
+  // Register the configure MCP server command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.configureMcpServer', async () => {
+      const client = await vscode.window.showQuickPick(
+        MCP_CLIENTS.map(candidate => ({ label: candidate.label, description: candidate.file, client: candidate })),
+        { placeHolder: 'Select the MCP client to configure' }
+      )
+      if (!client) {
+        return
+      }
+
+      const workspaceFolder = await pickWorkspaceFolder('Select the folder to add the MCP server to')
+      if (!workspaceFolder) {
+        return
+      }
+
+      try {
+        const serverPath = await installMcpServer(context)
+        const sources = getRegistrySources()
+        // The config files are usually committed, and the entry only works on this machine
+        const machinePaths = getMachineSpecificPaths(workspaceFolder, serverPath, sources)
+        const confirm = await vscode.window.showWarningMessage(
+          `The server entry in ${client.client.file} points to files on this machine, so it will not work for others if the file is committed.`,
+          { modal: true, detail: machinePaths.join('\n') },
+          'Add Server'
+        )
+        if (confirm !== 'Add Server') {
+          return
+        }
+        const uri = await writeMcpConfig(workspaceFolder, client.client, serverPath, sources)
+        await vscode.window.showTextDocument(uri)
+        vscode.window.showInformationMessage(`Added the LLMS.txt MCP server to ${client.client.file}`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to configure the MCP server: ${error instanceof Error ? error.message : error}`)
+      }
+    })
+  )
+
+  // Register the build context bundle command. Websites come from the items selected in a view,
+  // from search results, or are picked from the registry
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'llms-txt-extension.buildContextBundle',
+      async (item?: TreeItemType, selectedItems?: TreeItemType[], searchResults?: Website[]) => {
+        let websites = (selectedItems ?? (item ? [item] : []))
+          .filter((selected): selected is WebsiteItem => selected instanceof WebsiteItem)
+          .map(selected => selected.website)
+        if (websites.length === 0) {
+          websites = await pickBundleWebsites(websitesProvider.getAllWebsites(), favoritesProvider.getAllFavorites(), searchResults ?? [])
+        }
+        websites = websites.filter(website => website.llmsTxtUrl || website.llmsFullTxtUrl)
+        if (websites.length === 0) {
+          return
+        }
+
+        const sources = await pickBundleSources(websites)
+        if (!sources) {
+          return
+        }
+
+        const defaultBudget = vscode.workspace.getConfiguration('llms-txt').get<number>('bundle.tokenBudget', 100000)
+        const budgetInput = await vscode.window.showInputBox({
+          prompt: 'Token budget for the bundle. Lower priority sections are left out to fit.',
+          value: String(defaultBudget),
+          validateInput: value => (/^\d+$/.test(value.trim()) && Number(value) > 0 ? undefined : 'Enter a positive number of tokens')
+        })
+        if (!budgetInput) {
+          return
+        }
+
+        // Download everything that was not already fetched to pick sections
+        const failed: string[] = []
+        const fetched = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: 'Building context bundle...', cancellable: true },
+          async (progress, token) => {
+            const results: BundleSource[] = []
+            for (const source of sources) {
+              if (token.isCancellationRequested) {
+                return undefined
+              }
+              progress.report({ message: `${source.website.name} (${source.kind})`, increment: 100 / sources.length })
+              try {
+                results.push({ ...source, content: source.content || (await fetchTxtContent(source.url)) })
+              } catch {
+                failed.push(`${source.website.name} (${source.kind})`)
+              }
+            }
+            return results
+          }
+        )
+        if (!fetched) {
+          return
+        }
+        if (failed.length > 0) {
+          vscode.window.showWarningMessage(`Left out files that could not be fetched: ${failed.join(', ')}`)
+        }
+        if (fetched.length === 0) {
+          return
+        }
+
+        const bundle = buildContextBundle(fetched, Number(budgetInput))
+        const summary = bundle.trimmed.length > 0
+          ? `Built a ${formatTokens(bundle.tokens)} context bundle, leaving out ${bundle.trimmed.length} ${bundle.trimmed.length === 1 ? 'section' : 'sections'} to fit the budget`
+          : `Built a ${formatTokens(bundle.tokens)} context bundle`
+        if (bundle.tokens > bundle.budget) {
+          vscode.window.showWarningMessage(`The bundle is still over budget at ${formatTokens(bundle.tokens)}: the content before each file's first section is always kept`)
+        }
+
+        const output = await vscode.window.showQuickPick(
+          [
+            { label: '$(go-to-file) Open in Editor', target: 'editor' },
+            { label: '$(copy) Copy to Clipboard', target: 'clipboard' },
+            { label: '$(save) Save to Workspace File', target: 'file' }
+          ],
+          { placeHolder: summary }
+        )
+        if (!output) {
+          return
+        }
+
+        if (output.target === 'editor') {
+          const document = await vscode.workspace.openTextDocument({ content: bundle.markdown, language: 'markdown' })
+          await vscode.window.showTextDocument(document)
+        } else if (output.target === 'clipboard') {
+          await vscode.env.clipboard.writeText(bundle.markdown)
+          vscode.window.showInformationMessage(`Copied the ${formatTokens(bundle.tokens)} context bundle to the clipboard`)
+        } else {
+          const workspaceFolder = await pickWorkspaceFolder('Select the folder to save the context bundle to')
+          if (!workspaceFolder) {
+            return
+          }
+          const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, 'context-bundle.md'),
+            filters: { Markdown: ['md'] }
+          })
+          if (!uri) {
+            return
+          }
+          await vscode.workspace.fs.writeFile(uri, Buffer.from(bundle.markdown, 'utf8'))
+          await vscode.window.showTextDocument(uri)
+        }
+      }
+    )
+  )
+
+  // Register the show changes since last view command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.showChangesSinceLastView', async (item: TreeItemType) => {
+      if (!(item instanceof WebsiteItem)) {
+        return
+      }
+      const file = await pickWebsiteFile(item.website, `Show changes to which file of ${item.website.name}?`)
+      if (!file) {
+        return
+      }
+
+      try {
+        const previous = await contentHistory.getLastViewed(file.url)
+        const content = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Fetching ${file.title}...` },
+          () => fetchTxtContent(file.url)
+        )
+        await contentHistory.record(file.url, content)
+        const current = (await contentHistory.list(file.url))[0]
+        await contentHistory.markViewed(file.url)
+        await favoritesProvider.clearUpdates(item.website.domain, file.url)
+
+        if (!previous) {
+          vscode.window.showInformationMessage(`You have not viewed ${file.title} before; changes will be tracked from now on`)
+        } else if (!current || current.id === previous.id) {
+          vscode.window.showInformationMessage(`${file.title} has not changed since you viewed it on ${formatSnapshotDate(previous)}`)
+        } else {
+          await showSnapshotDiff(previous, current, file.title)
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to show changes to ${file.title}: ${error}`)
+      }
+    })
+  )
+
+  // Register the show history command, for a website or an open LLMS.txt document
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.showContentHistory', async (target?: TreeItemType | vscode.Uri) => {
+      const uri = target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri
+      const sourceUrl = uri && getSourceUrl(uri)
+      let file: { url: string; title: string } | undefined
+      if (target instanceof WebsiteItem) {
+        file = await pickWebsiteFile(target.website, `Show the history of which file of ${target.website.name}?`)
+      } else if (uri && sourceUrl) {
+        file = { url: sourceUrl, title: getContentTitle(uri) }
+      }
+      if (!file) {
+        return
+      }
+
+      const snapshots = await contentHistory.list(file.url)
+      if (snapshots.length < 2) {
+        vscode.window.showInformationMessage(
+          snapshots.length === 0
+            ? `No history for ${file.title} yet: a version is recorded each time it is fetched with new content`
+            : `Only one version of ${file.title} has been recorded so far`
+        )
+        return
+      }
+
+      const lastViewed = await contentHistory.getLastViewed(file.url)
+      const toItem = (snapshot: (typeof snapshots)[number], index: number) => ({
+        label: `$(history) ${formatSnapshotDate(snapshot)}`,
+        description: `${formatTimeAgo(snapshot.fetchedAt)} · ${formatBytes(snapshot.size)}`,
+        detail: [index === 0 && 'Latest', snapshot.id === lastViewed?.id && 'Last viewed'].filter(Boolean).join(' · '),
+        snapshot
+      })
+
+      const first = await vscode.window.showQuickPick(snapshots.map(toItem), {
+        placeHolder: `Select a version of ${file.title}`,
+        matchOnDescription: true
+      })
+      if (!first) {
+        return
+      }
+      const second = await vscode.window.showQuickPick(
+        snapshots.map(toItem).filter(candidate => candidate.snapshot.id !== first.snapshot.id),
+        { placeHolder: `Compare the version of ${formatSnapshotDate(first.snapshot)} with`, matchOnDescription: true }
+      )
+      if (!second) {
+        return
+      }
+
+      const [older, newer] = [first.snapshot, second.snapshot].sort((a, b) => a.fetchedAt - b.fetchedAt)
+      await showSnapshotDiff(older, newer, file.title)
+    })
+  )
+
+  // Register the workspace favorites commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'llms-txt-extension.promoteToWorkspaceFavorites',
+      async (item: FavoriteTreeItemType, selectedItems?: FavoriteTreeItemType[]) => {
+        const selection = (selectedItems ?? [item]).filter(
+          (selected): selected is WebsiteItem => selected instanceof WebsiteItem
+        )
+        if (selection.length === 0) {
+          return
+        }
+        const workspaceFolder = await pickWorkspaceFolder('Share the favorites with which workspace folder?')
+        if (!workspaceFolder) {
+          return
+        }
+
+        // Suggest the folder's existing groups and the group the favorite is in
+        const personalGroup = favoritesProvider.getGroups().find(group => group.id === selection[0].groupId)
+        const names = new Set([
+          ...favoritesProvider
+            .getWorkspaceGroups()
+            .filter(group => group.workspaceFolder === workspaceFolder.uri.toString())
+            .map(group => group.name),
+          ...(personalGroup && personalGroup.id !== DEFAULT_GROUP_ID ? [personalGroup.name] : []),
+          'Workspace'
+        ])
+        const choice = await vscode.window.showQuickPick(
+          [...Array.from(names).map(name => ({ label: name, name })), { label: '$(add) New Group...', name: '' }],
+          { placeHolder: 'Add to which group of the workspace favorites?' }
+        )
+        if (!choice) {
+          return
+        }
+        const groupName = choice.name || (await promptGroupName())
+        if (!groupName) {
+          return
+        }
+
+        try {
+          const added = await workspaceFavorites.add(workspaceFolder, groupName, selection.map(selected => selected.website))
+          const fileUri = workspaceFavorites.getFileUri(workspaceFolder)
+          vscode.window.showInformationMessage(
+            added.length > 0
+              ? `Shared ${added.map(website => website.name).join(', ')} in ${vscode.workspace.asRelativePath(fileUri)}`
+              : `Already shared in ${vscode.workspace.asRelativePath(fileUri)}`
+          )
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to share favorites: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+    ),
+    vscode.commands.registerCommand('llms-txt-extension.removeFromWorkspaceFavorites', async (item: FavoriteTreeItemType) => {
+      if (item instanceof WebsiteItem && item.groupId) {
+        try {
+          await workspaceFavorites.remove(item.groupId, item.website.domain)
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to remove ${item.website.name}: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+    }),
+    vscode.commands.registerCommand('llms-txt-extension.openWorkspaceFavoritesFile', async (item?: FavoriteTreeItemType) => {
+      const folderUri = item instanceof FavoriteGroupItem ? item.group.workspaceFolder : undefined
+      const workspaceFolder = folderUri
+        ? vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(folderUri))
+        : await pickWorkspaceFolder('Open the favorites file of which workspace folder?')
+      if (!workspaceFolder) {
+        return
+      }
+
+      const uri = workspaceFavorites.getFileUri(workspaceFolder)
+      try {
+        await vscode.workspace.fs.stat(uri)
+      } catch {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeFavoritesFile([]), 'utf8'))
+      }
+      await vscode.window.showTextDocument(uri)
+    }),
+    vscode.commands.registerCommand('llms-txt-extension.exportFavorites', async () => {
+      const workspaceGroups = favoritesProvider.getWorkspaceGroups()
+      const source = workspaceGroups.length === 0
+        ? 'personal'
+        : (
+          await vscode.window.showQuickPick(
+            [
+              { label: 'Personal favorites', source: 'personal' },
+              { label: 'Workspace favorites', source: 'workspace' }
+            ],
+            { placeHolder: 'Export which favorites?' }
+          )
+        )?.source
+      if (!source) {
+        return
+      }
+
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(
+          vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir()),
+          'llms-txt-favorites.json'
+        ),
+        filters: { JSON: ['json'] }
+      })
+      if (!uri) {
+        return
+      }
+
+      const groups = source === 'personal' ? favoritesProvider.getGroups() : workspaceGroups
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeFavoritesFile(groups), 'utf8'))
+      const count = groups.reduce((total, group) => total + group.websites.length, 0)
+      vscode.window.showInformationMessage(`Exported ${count} favorites to ${uri.fsPath}`)
+    }),
+    vscode.commands.registerCommand('llms-txt-extension.importFavorites', async () => {
+      const [uri] = (await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { JSON: ['json'] },
+        openLabel: 'Import'
+      })) ?? []
+      if (!uri) {
+        return
+      }
+
+      let groups: ReturnType<typeof parseFavoritesFile>
+      try {
+        groups = parseFavoritesFile(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'))
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to import favorites: ${error instanceof Error ? error.message : error}`)
+        return
+      }
+
+      const target = vscode.workspace.workspaceFolders?.length
+        ? (
+          await vscode.window.showQuickPick(
+            [
+              { label: 'Personal favorites', target: 'personal' },
+              { label: 'Workspace favorites', description: 'Shared with the team', target: 'workspace' }
+            ],
+            { placeHolder: 'Import into which favorites?' }
+          )
+        )?.target
+        : 'personal'
+      if (!target) {
+        return
+      }
+
+      if (target === 'personal') {
+        const added = await favoritesProvider.importFavorites(groups)
+        vscode.window.showInformationMessage(`Imported ${added} favorites`)
+        return
+      }
+
+      const workspaceFolder = await pickWorkspaceFolder('Import into the favorites of which workspace folder?')
+      if (!workspaceFolder) {
+        return
+      }
+      try {
+        let added = 0
+        for (const group of groups) {
+          added += (await workspaceFavorites.add(workspaceFolder, group.name, group.websites)).length
+        }
+        vscode.window.showInformationMessage(`Imported ${added} favorites into ${vscode.workspace.asRelativePath(workspaceFavorites.getFileUri(workspaceFolder))}`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to import favorites: ${error instanceof Error ? error.message : error}`)
+      }
+    })
+  )
+
+  // Register the check favorites for updates command, which works even when background checks are off
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.checkFavoritesForUpdates', async () => {
+      if (favoritesProvider.getAllFavorites().length === 0) {
+        vscode.window.showInformationMessage('Add favorites to check them for updates')
+        return
+      }
+      const updates = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Checking favorites for updates...' },
+        () => updatePoller.check()
+      )
+      if (updates.length === 0) {
+        vscode.window.showInformationMessage('No favorites have changed since they were last checked')
+      }
+    })
+  )
+
+  // Register the show favorite updates command, for one favorite or all of them
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.showFavoriteUpdates', async (item?: TreeItemType) => {
+      const updates = favoritesProvider.getUpdates(item instanceof WebsiteItem ? item.website.domain : undefined)
+      if (updates.length === 0) {
+        vscode.window.showInformationMessage('No unseen updates')
+        return
+      }
+
+      const update = updates.length === 1
+        ? updates[0]
+        : (
+          await vscode.window.showQuickPick(
+            updates.map(candidate => ({
+              label: candidate.title,
+              description: `updated ${formatTimeAgo(candidate.detectedAt)}`,
+              update: candidate
+            })),
+            { placeHolder: 'Select the update to show' }
+          )
+        )?.update
+      if (!update) {
+        return
+      }
+
+      if (update.previous && update.current) {
+        await showSnapshotDiff(update.previous, update.current, update.title)
+      } else {
+        // Without the content history there is nothing to diff against
+        await viewTxtContent(update.url, update.title)
+      }
+      await favoritesProvider.clearUpdates(update.domain, update.url)
+    })
+  )
+
+  // Register the link health commands, which check the selected websites or a scope picked from the registry
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'llms-txt-extension.checkLinkHealth',
+      async (item?: TreeItemType, selectedItems?: TreeItemType[]) => {
+        let websites = (selectedItems ?? (item ? [item] : []))
+          .filter((selected): selected is WebsiteItem => selected instanceof WebsiteItem)
+          .map(selected => selected.website)
+        if (websites.length === 0) {
+          const scope = await vscode.window.showQuickPick(
+            [
+              { label: 'All Websites', description: `${websitesProvider.getAllWebsites().length} websites`, scope: 'all' },
+              { label: 'Visible Websites', description: 'Matching the current search and category filter', scope: 'visible' },
+              { label: 'Favorites', description: `${favoritesProvider.getAllFavorites().length} websites`, scope: 'favorites' }
+            ],
+            { placeHolder: 'Check the links of which websites?' }
+          )
+          if (!scope) {
+            return
+          }
+          websites = scope.scope === 'all'
+            ? websitesProvider.getAllWebsites()
+            : scope.scope === 'visible'
+              ? websitesProvider.getVisibleWebsites()
+              : favoritesProvider.getAllFavorites()
+        }
+
+        const targets = getLinkTargets(websites)
+        if (targets.length === 0) {
+          vscode.window.showInformationMessage('No links to check')
+          return
+        }
+
+        const { concurrency, timeoutMs } = getLinkHealthSettings()
+        let brokenCount = 0
+        const results = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: 'Checking links', cancellable: true },
+          (progress, token) => {
+            const controller = new AbortController()
+            token.onCancellationRequested(() => controller.abort())
+            return checkLinks(targets, {
+              concurrency,
+              timeoutMs,
+              signal: controller.signal,
+              onResult: (result, completed) => {
+                brokenCount += isBrokenLink(result) ? 1 : 0
+                progress.report({
+                  message: `${completed}/${targets.length} · ${brokenCount} broken`,
+                  increment: 100 / targets.length
+                })
+              }
+            })
+          }
+        )
+        if (results.length === 0) {
+          return
+        }
+
+        recordLinkHealth(results)
+        await context.globalState.update(LINK_HEALTH_KEY, getAllLinkHealth())
+        await websitesProvider.refresh()
+        favoritesProvider.refresh()
+        projectProvider.refresh()
+
+        const redirectedCount = results.filter(result => result.status === 'redirected').length
+        const checked = results.length < targets.length ? `${results.length} of ${targets.length}` : `${results.length}`
+        const message = `Checked ${checked} links: ${brokenCount} broken, ${redirectedCount} redirected`
+        const choice = brokenCount > 0
+          ? await vscode.window.showWarningMessage(message, 'Show Report', 'Export')
+          : await vscode.window.showInformationMessage(message, 'Show Report', 'Export')
+        if (choice === 'Show Report') {
+          await vscode.commands.executeCommand('llms-txt-extension.showLinkHealthReport')
+        } else if (choice === 'Export') {
+          await vscode.commands.executeCommand('llms-txt-extension.exportLinkHealthReport')
+        }
+      }
+    ),
+    vscode.commands.registerCommand('llms-txt-extension.showLinkHealthReport', async () => {
+      const results = getAllLinkHealth()
+      if (results.length === 0) {
+        vscode.window.showInformationMessage('Check the links of some websites to get a report')
+        return
+      }
+      const document = await vscode.workspace.openTextDocument({
+        content: formatLinkHealthReport(results),
+        language: 'markdown'
+      })
+      await vscode.window.showTextDocument(document)
+    }),
+    vscode.commands.registerCommand('llms-txt-extension.exportLinkHealthReport', async () => {
+      const results = getAllLinkHealth()
+      if (results.length === 0) {
+        vscode.window.showInformationMessage('Check the links of some websites to get a report')
+        return
+      }
+
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(
+          vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir()),
+          'llms-txt-link-health.md'
+        ),
+        filters: { Markdown: ['md'], JSON: ['json'] }
+      })
+      if (!uri) {
+        return
+      }
+
+      const content = uri.path.endsWith('.json')
+        ? `${JSON.stringify(results, undefined, 2)}\n`
+        : formatLinkHealthReport(results)
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'))
+      vscode.window.showInformationMessage(`Exported the results of ${results.length} links to ${uri.fsPath}`)
+    })
+  )
+
+  // Register the visit website command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.visitWebsite', (item: TreeItemType) => {
+      if (item instanceof WebsiteItem) {
+        vscode.env.openExternal(vscode.Uri.parse(`${item.website.domain}`));
+      }
+    })
+  )
+
+  // Register the category filter command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.filterByCategory', async () => {
+      const categories = websitesProvider.getCategories()
+      const quickPick = vscode.window.createQuickPick()
+
+      quickPick.items = categories.map(category => ({
+        label: category,
         description: 'Filter by this category'
       }))
 
@@ -358,6 +2175,64 @@ function setupCommands(
     })
   )
 
+  // Register the manage content cache command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('llms-txt-extension.manageContentCache', async () => {
+      const entries = await contentCache.list()
+      if (entries.length === 0) {
+        vscode.window.showInformationMessage('The LLMS.txt content cache is empty')
+        return
+      }
+
+      // Group cached files by the website they belong to
+      const sites = new Map<string, typeof entries>()
+      for (const entry of entries) {
+        const website = websitesProvider
+          .getAllWebsites()
+          .find(site => site.llmsTxtUrl === entry.url || site.llmsFullTxtUrl === entry.url)
+        const siteName = website?.name ?? vscode.Uri.parse(entry.url).authority
+        sites.set(siteName, [...(sites.get(siteName) ?? []), entry])
+      }
+
+      const totalSize = entries.reduce((total, entry) => total + entry.size, 0)
+      const items = Array.from(sites.entries())
+        .map(([siteName, siteEntries]) => {
+          const size = siteEntries.reduce((total, entry) => total + entry.size, 0)
+          return {
+            label: siteName,
+            description: formatBytes(size),
+            detail: siteEntries
+              .map(entry => `${entry.url.split('/').pop()} · fetched ${formatTimeAgo(entry.fetchedAt)}`)
+              .join(', '),
+            size,
+            urls: siteEntries.map(entry => entry.url)
+          }
+        })
+        .sort((a, b) => b.size - a.size)
+
+      const selection = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: `Content cache: ${formatBytes(totalSize)} in ${entries.length} files. Select websites to purge`
+      })
+      if (!selection || selection.length === 0) {
+        return
+      }
+
+      const purgedSize = selection.reduce((total, item) => total + item.size, 0)
+      const confirm = await vscode.window.showWarningMessage(
+        `Purge ${formatBytes(purgedSize)} of cached content for ${selection.length} website(s)?`,
+        { modal: true },
+        'Purge'
+      )
+      if (confirm !== 'Purge') {
+        return
+      }
+
+      await contentCache.purge(selection.flatMap(item => item.urls))
+      vscode.window.showInformationMessage(`Purged ${formatBytes(purgedSize)} from the content cache`)
+    })
+  )
+
   // Register the clear category filter command
   context.subscriptions.push(
     vscode.commands.registerCommand('llms-txt-extension.clearCategoryFilter', () => {
@@ -367,10 +2242,273 @@ function setupCommands(
   )
 }
 
+/**
+ * Hashes content to tell whether a file changed since it was written
+ */
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Asks for the name of a favorite group
+ * @param value Current name, when renaming
+ */
+async function promptGroupName(value?: string): Promise<string | undefined> {
+  const name = await vscode.window.showInputBox({
+    prompt: value ? 'New name of the group' : 'Name of the new group, e.g. "Frontend stack"',
+    value,
+    validateInput: input => (input.trim() ? undefined : 'Enter a name')
+  })
+  return name?.trim()
+}
+
+/**
+ * Picks a favorite group, offering to create a new one
+ * @returns The ID of the group, or undefined when cancelled
+ */
+async function pickFavoriteGroup(favoritesProvider: FavoritesProvider, placeHolder: string): Promise<string | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      ...favoritesProvider.getGroups().map(group => ({
+        label: `$(folder) ${group.name}`,
+        description: `(${group.websites.length})`,
+        groupId: group.id as string | undefined
+      })),
+      { label: '$(new-folder) New Group...', description: '', groupId: undefined }
+    ],
+    { placeHolder }
+  )
+  if (!choice) {
+    return undefined
+  }
+  if (choice.groupId) {
+    return choice.groupId
+  }
+
+  const name = await promptGroupName()
+  return name ? (await favoritesProvider.createGroup(name)).id : undefined
+}
+
+/**
+ * Summarizes updated favorites in a notification offering to show the changes
+ */
+async function notifyFavoriteUpdates(updates: FavoriteUpdate[]): Promise<void> {
+  const names = updates.map(update => update.title)
+  const summary = names.length > 3 ? `${names.slice(0, 3).join(', ')} and ${names.length - 3} more` : names.join(', ')
+  const choice = await vscode.window.showInformationMessage(
+    `${updates.length === 1 ? 'A favorite was' : `${updates.length} favorite files were`} updated: ${summary}`,
+    'Show Changes'
+  )
+  if (choice === 'Show Changes') {
+    await vscode.commands.executeCommand('llms-txt-extension.showFavoriteUpdates')
+  }
+}
+
+/**
+ * Picks the category of a website, offering to create a new one
+ * @returns The category, with an undefined slug for uncategorized websites, or undefined when cancelled
+ */
+async function pickWebsiteCategory(
+  websitesProvider: WebsitesProvider,
+  placeHolder: string
+): Promise<{ slug: string | undefined } | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      ...websitesProvider.getCategoryChoices().map(category => ({
+        label: category.label,
+        description: category.label !== category.slug ? category.slug : '',
+        slug: category.slug as string | undefined
+      })),
+      { label: '$(add) New Category...', description: '', slug: undefined }
+    ],
+    { placeHolder }
+  )
+  if (!choice) {
+    return undefined
+  }
+  if (choice.slug) {
+    return { slug: choice.slug === 'uncategorized' ? undefined : choice.slug }
+  }
+
+  const name = await vscode.window.showInputBox({
+    prompt: 'Name of the new category',
+    validateInput: input => (input.trim() ? undefined : 'Enter a name')
+  })
+  return name ? { slug: name.trim() } : undefined
+}
+
+/**
+ * Tells about favorites that no longer match the registry, offering to update or remove them
+ */
+async function notifyFavoriteIssues(favoritesProvider: FavoritesProvider, issues: FavoriteIssue[]): Promise<void> {
+  const changed = issues.filter(issue => issue.kind === 'changed')
+  const missing = issues.filter(issue => issue.kind === 'missing')
+  const message = issues.length === 1
+    ? changed.length === 1
+      ? `The registry changed the URLs of your favorite ${issues[0].favorite.name}`
+      : `The registry no longer lists your favorite ${issues[0].favorite.name}`
+    : `${issues.length} favorites no longer match the registry: ${[
+        changed.length > 0 ? `${changed.length} with changed URLs` : '',
+        missing.length > 0 ? `${missing.length} no longer listed` : ''
+      ].filter(Boolean).join(', ')}`
+
+  const actions = [
+    ...(changed.length > 0 ? ['Update'] : []),
+    ...(missing.length > 0 ? ['Remove'] : []),
+    'Show'
+  ]
+  const choice = await vscode.window.showWarningMessage(message, ...actions)
+  if (choice === 'Update') {
+    await favoritesProvider.acceptRegistryChanges(changed.map(issue => issue.favorite))
+  } else if (choice === 'Remove') {
+    await vscode.commands.executeCommand('llms-txt-extension.removeMissingFavorites')
+  } else if (choice === 'Show') {
+    await vscode.commands.executeCommand('llmsTxtFavorites.focus')
+  }
+}
+
+/**
+ * Picks one of a website's files, asking only when it has both
+ * @returns The URL and document title of the file, or undefined when cancelled
+ */
+async function pickWebsiteFile(website: Website, placeHolder: string): Promise<{ url: string; title: string } | undefined> {
+  const files = [
+    { label: 'LLMS.txt', url: website.llmsTxtUrl },
+    { label: 'LLMS Full.txt', url: website.llmsFullTxtUrl }
+  ]
+    .filter((file): file is { label: string; url: string } => !!file.url)
+    .map(file => ({ ...file, description: file.url, title: `${website.name} - ${file.label}` }))
+
+  if (files.length === 0) {
+    vscode.window.showErrorMessage(`No LLMS.txt files available for ${website.name}`)
+    return undefined
+  }
+  return files.length === 1 ? files[0] : vscode.window.showQuickPick(files, { placeHolder })
+}
+
+/**
+ * Lets the user pick the websites of a context bundle, favorites first
+ * @param websites All websites in the registry
+ * @param favorites Favorite websites
+ * @param picked Websites selected to start with
+ */
+async function pickBundleWebsites(websites: Website[], favorites: Website[], picked: Website[]): Promise<Website[]> {
+  const pickedDomains = new Set(picked.map(website => website.domain))
+  const favoriteDomains = new Set(favorites.map(website => website.domain))
+  const toItem = (website: Website) => ({
+    label: website.name,
+    description: website.domain,
+    picked: pickedDomains.has(website.domain),
+    website
+  })
+
+  const items: (vscode.QuickPickItem & { website?: Website })[] = []
+  if (favorites.length > 0) {
+    items.push({ label: 'Favorites', kind: vscode.QuickPickItemKind.Separator }, ...favorites.map(toItem))
+    items.push({ label: 'Websites', kind: vscode.QuickPickItemKind.Separator })
+  }
+  items.push(...websites.filter(website => !favoriteDomains.has(website.domain)).map(toItem))
+
+  const selection = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    matchOnDescription: true,
+    placeHolder: 'Select the websites to bundle'
+  })
+  return (selection ?? []).flatMap(item => (item.website ? [item.website] : []))
+}
+
+/**
+ * A bundle source before it is downloaded; content is only fetched up front to pick sections
+ */
+type PendingBundleSource = Omit<BundleSource, 'content'> & { content?: string }
+
+/**
+ * Lets the user choose which file, and optionally which sections, to bundle for each website
+ * @returns The sources, or undefined if cancelled
+ */
+async function pickBundleSources(websites: Website[]): Promise<PendingBundleSource[] | undefined> {
+  const available = (website: Website) =>
+    (['llms.txt', 'llms-full.txt'] as LlmsFileKind[])
+      .map(kind => ({ kind, url: kind === 'llms.txt' ? website.llmsTxtUrl : website.llmsFullTxtUrl }))
+      .filter((file): file is { kind: LlmsFileKind; url: string } => !!file.url)
+
+  let mode = 'each'
+  if (websites.length > 1) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: 'llms.txt for every website', mode: 'llms.txt' },
+        { label: 'llms-full.txt where available', mode: 'llms-full.txt' },
+        { label: 'Choose for each website', mode: 'each' }
+      ],
+      { placeHolder: `What to include for the ${websites.length} websites` }
+    )
+    if (!choice) {
+      return undefined
+    }
+    mode = choice.mode
+  }
+
+  const sources: PendingBundleSource[] = []
+  for (const website of websites) {
+    const files = available(website)
+    if (mode !== 'each') {
+      const file = files.find(candidate => candidate.kind === mode) ?? files[0]
+      sources.push({ website, ...file })
+      continue
+    }
+
+    const choice = await vscode.window.showQuickPick(
+      files.flatMap(file => [
+        { label: file.kind, description: 'Whole file', file, sections: false },
+        { label: `Sections of ${file.kind}...`, description: 'Pick the sections to include', file, sections: true }
+      ]),
+      { placeHolder: `What to include from ${website.name}` }
+    )
+    if (!choice) {
+      return undefined
+    }
+    if (!choice.sections) {
+      sources.push({ website, ...choice.file })
+      continue
+    }
+
+    let content: string
+    try {
+      content = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: `Fetching ${website.name} ${choice.file.kind}...` },
+        () => fetchTxtContent(choice.file.url)
+      )
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to fetch ${choice.file.kind} for ${website.name}: ${error}`)
+      return undefined
+    }
+
+    const sections = splitBundleChunks(content).filter(chunk => !chunk.preamble)
+    const picked = await vscode.window.showQuickPick(
+      sections.map(section => ({ label: section.title, picked: !section.optional })),
+      { canPickMany: true, placeHolder: `Sections of ${website.name} ${choice.file.kind} to include` }
+    )
+    if (!picked) {
+      return undefined
+    }
+    sources.push({ website, ...choice.file, content, sections: picked.map(section => section.label) })
+  }
+  return sources
+}
+
 function createQuickPickItem(website: Website): WebsiteQuickPickItem {
+  // Show the estimated tokens of the files whose size is already known
+  const estimates = [
+    { label: 'llms.txt', url: website.llmsTxtUrl },
+    { label: 'full', url: website.llmsFullTxtUrl }
+  ].flatMap(file => {
+    const size = file.url ? getKnownFileSize(file.url) : undefined
+    return size !== undefined ? [`${file.label} ~${formatTokenCount(estimateTokensForSize(size))}`] : []
+  })
+
   return {
     label: website.name,
-    description: website.domain,
+    description: estimates.length > 0 ? `${website.domain} · ${estimates.join(' · ')} tokens` : website.domain,
     detail: website.description,
     website,
     iconPath: website.favicon ? vscode.Uri.parse(website.favicon) : new vscode.ThemeIcon('globe'),
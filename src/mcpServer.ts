@@ -0,0 +1,247 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import * as path from 'node:path'
+import { z } from 'zod'
+import type { LlmsFileKind, RegistrySource, Website } from './types'
+import {
+  DEFAULT_REGISTRY_SOURCE,
+  fetchTxtContent,
+  fetchWebsites,
+  findWebsiteByDomain,
+  getDomainKey,
+  isRemoteLocation
+} from './services/websiteService'
+import { SearchService } from './services/searchService'
+import { findMarkdownSection, splitMarkdownSections, truncateText } from './services/markdownSections'
+
+/**
+ * Stdio Model Context Protocol server exposing the llms.txt registry and content.
+ *
+ * Usage: node mcpServer.js [--registry <url or path>]... [--max-characters <n>]
+ *
+ * Registries can also be given as a comma-separated LLMS_TXT_REGISTRY environment variable.
+ * Paths are resolved against the current directory.
+ */
+
+interface ServerOptions {
+  sources: RegistrySource[]
+  maxCharacters: number
+}
+
+const DEFAULT_MAX_CHARACTERS = 40000
+const DEFAULT_LIST_LIMIT = 100
+
+/**
+ * Reads the server options from the command line and environment
+ */
+export function parseServerOptions(argv: string[], env: NodeJS.ProcessEnv): ServerOptions {
+  const locations: string[] = []
+  let maxCharacters = DEFAULT_MAX_CHARACTERS
+
+  for (let index = 0; index < argv.length; index++) {
+    if (argv[index] === '--registry' && argv[index + 1]) {
+      locations.push(argv[++index])
+    } else if (argv[index] === '--max-characters' && argv[index + 1]) {
+      maxCharacters = Number(argv[++index]) || DEFAULT_MAX_CHARACTERS
+    }
+  }
+  if (locations.length === 0 && env.LLMS_TXT_REGISTRY) {
+    locations.push(...env.LLMS_TXT_REGISTRY.split(',').map(location => location.trim()).filter(Boolean))
+  }
+
+  const sources = locations.map(location => {
+    const resolved = isRemoteLocation(location) ? location : path.resolve(location)
+    return {
+      location: resolved,
+      label: resolved === DEFAULT_REGISTRY_SOURCE.location ? DEFAULT_REGISTRY_SOURCE.label : path.basename(resolved)
+    }
+  })
+  return { sources: sources.length > 0 ? sources : [DEFAULT_REGISTRY_SOURCE], maxCharacters }
+}
+
+/**
+ * Creates the MCP server with registry tools and one resource per llms.txt file
+ */
+export function createMcpServer(options: ServerOptions): McpServer {
+  const server = new McpServer({ name: 'llms-txt', version: '1.0.0' })
+  const searchService = new SearchService()
+  let registry: Promise<Website[]> | undefined
+
+  // Load the registry once, on first use
+  const getWebsites = (): Promise<Website[]> => {
+    if (!registry) {
+      registry = fetchWebsites(options.sources).then(async websites => {
+        await searchService.updateDataset(websites)
+        return websites
+      })
+      registry.catch(() => {
+        registry = undefined
+      })
+    }
+    return registry
+  }
+
+  const getWebsite = async (domain: string): Promise<Website> => {
+    const website = findWebsiteByDomain(await getWebsites(), domain)
+    if (!website) {
+      throw new Error(`No website matching "${domain}" in the llms.txt registry. Use search_websites first.`)
+    }
+    return website
+  }
+
+  const text = (value: string) => ({ content: [{ type: 'text' as const, text: value }] })
+  const formatWebsite = (website: Website) =>
+    [
+      `- ${website.name} (${website.domain})${website.category ? ` [${website.category}]` : ''}`,
+      website.description ? `  ${website.description}` : undefined,
+      website.llmsTxtUrl ? `  llms.txt: ${website.llmsTxtUrl}` : undefined,
+      website.llmsFullTxtUrl ? `  llms-full.txt: ${website.llmsFullTxtUrl}` : undefined
+    ]
+      .filter(Boolean)
+      .join('\n')
+
+  server.registerTool(
+    'list_websites',
+    {
+      description: 'Lists websites in the llms.txt registry, optionally filtered by category',
+      inputSchema: {
+        category: z.string().optional().describe("Category slug, e.g. 'ai-ml' or 'developer-tools'"),
+        limit: z.number().int().positive().optional().describe(`Maximum number of results, ${DEFAULT_LIST_LIMIT} by default`),
+        offset: z.number().int().nonnegative().optional().describe('Number of results to skip')
+      }
+    },
+    async ({ category, limit, offset }) => {
+      const websites = (await getWebsites()).filter(
+        website => !category || (website.category || 'uncategorized') === category
+      )
+      const start = offset ?? 0
+      const page = websites.slice(start, start + (limit ?? DEFAULT_LIST_LIMIT))
+      return text(
+        `Showing ${page.length} of ${websites.length} website(s):\n\n${page.map(formatWebsite).join('\n')}`
+      )
+    }
+  )
+
+  server.registerTool(
+    'search_websites',
+    {
+      description:
+        'Fuzzy searches the llms.txt registry by name, domain, description and category. Use it to find which libraries or services publish llms.txt documentation.',
+      inputSchema: {
+        query: z.string().min(1).describe("Name, domain or topic, e.g. 'stripe' or 'vector database'"),
+        category: z.string().optional().describe('Optional category slug to filter by'),
+        limit: z.number().int().positive().max(50).optional().describe('Maximum number of results, 10 by default')
+      }
+    },
+    async ({ query, category, limit }) => {
+      await getWebsites()
+      const results = searchService.search(query, category, false).slice(0, limit ?? 10)
+      if (results.length === 0) {
+        return text(`No websites in the llms.txt registry match "${query}".`)
+      }
+      return text(`Found ${results.length} website(s):\n\n${results.map(formatWebsite).join('\n')}`)
+    }
+  )
+
+  server.registerTool(
+    'get_llms_txt',
+    {
+      description:
+        "Fetches a website's llms.txt, or llms-full.txt when full is true. Long content is truncated; prefer get_llms_full_txt_section for specific topics.",
+      inputSchema: {
+        domain: z.string().describe("Domain or name of the website, e.g. 'stripe.com'"),
+        full: z.boolean().optional().describe('Fetch llms-full.txt instead of llms.txt')
+      }
+    },
+    async ({ domain, full }) => {
+      const website = await getWebsite(domain)
+      const file = full ? 'llms-full.txt' : 'llms.txt'
+      const url = full ? website.llmsFullTxtUrl : website.llmsTxtUrl
+      if (!url) {
+        throw new Error(`${website.name} does not publish an ${file}`)
+      }
+      const content = await fetchTxtContent(url)
+      return text(`${file} of ${website.name} (${url}):\n\n${truncateText(content, options.maxCharacters)}`)
+    }
+  )
+
+  server.registerTool(
+    'get_llms_full_txt_section',
+    {
+      description:
+        "Fetches one section of a website's llms-full.txt by heading. When no section matches, lists the available sections.",
+      inputSchema: {
+        domain: z.string().describe("Domain or name of the website, e.g. 'stripe.com'"),
+        section: z.string().describe('Heading, or part of the heading, of the section')
+      }
+    },
+    async ({ domain, section }) => {
+      const website = await getWebsite(domain)
+      if (!website.llmsFullTxtUrl) {
+        throw new Error(`${website.name} does not publish an llms-full.txt`)
+      }
+      const content = await fetchTxtContent(website.llmsFullTxtUrl)
+      const match = findMarkdownSection(content, section)
+      if (!match) {
+        const titles = splitMarkdownSections(content)
+          .filter(candidate => candidate.level <= 2)
+          .map(candidate => `- ${candidate.title}`)
+        return text(
+          `No section matching "${section}". Available sections:\n\n${truncateText(titles.join('\n'), options.maxCharacters)}`
+        )
+      }
+      return text(`Section "${match.title}" of ${website.name}:\n\n${truncateText(match.text, options.maxCharacters)}`)
+    }
+  )
+
+  // One resource per published file: llms-txt://<domain>/llms.txt and llms-txt://<domain>/llms-full.txt
+  server.registerResource(
+    'llms-txt',
+    new ResourceTemplate('llms-txt://{domain}/{file}', {
+      list: async () => ({
+        resources: (await getWebsites()).flatMap(website => {
+          const domain = encodeURIComponent(getDomainKey(website.domain))
+          const files: { file: LlmsFileKind; url?: string }[] = [
+            { file: 'llms.txt', url: website.llmsTxtUrl },
+            { file: 'llms-full.txt', url: website.llmsFullTxtUrl }
+          ]
+          return files
+            .filter(entry => !!entry.url)
+            .map(entry => ({
+              uri: `llms-txt://${domain}/${entry.file}`,
+              name: `${website.name} ${entry.file}`,
+              description: website.description,
+              mimeType: 'text/markdown'
+            }))
+        })
+      })
+    }),
+    { description: 'llms.txt and llms-full.txt files of the websites in the registry', mimeType: 'text/markdown' },
+    async (uri, variables) => {
+      const domain = decodeURIComponent(String(variables.domain))
+      const file = String(variables.file)
+      if (file !== 'llms.txt' && file !== 'llms-full.txt') {
+        throw new Error(`Unknown file ${file}, expected llms.txt or llms-full.txt`)
+      }
+
+      const website = await getWebsite(domain)
+      const url = file === 'llms.txt' ? website.llmsTxtUrl : website.llmsFullTxtUrl
+      if (!url) {
+        throw new Error(`${website.name} does not publish an ${file}`)
+      }
+      return { contents: [{ uri: uri.href, mimeType: 'text/markdown', text: await fetchTxtContent(url) }] }
+    }
+  )
+
+  return server
+}
+
+if (require.main === module) {
+  // stdout carries the protocol, so any logging from shared services must go to stderr
+  console.log = console.error
+  const server = createMcpServer(parseServerOptions(process.argv.slice(2), process.env))
+  server.connect(new StdioServerTransport()).catch(error => {
+    console.error('Failed to start the llms.txt MCP server:', error)
+    process.exit(1)
+  })
+}
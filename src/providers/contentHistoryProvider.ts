@@ -0,0 +1,76 @@
+import * as vscode from 'vscode'
+import type { ContentHistory, ContentSnapshot } from '../services/contentHistory'
+import { LLMS_TXT_LANGUAGE_ID } from './llmsTxtLanguage'
+
+/**
+ * URI scheme of read-only documents showing a snapshot from the content history
+ */
+export const LLMS_TXT_HISTORY_SCHEME = 'llms-txt-history'
+
+/**
+ * Builds the URI of a read-only document for a snapshot
+ * @param snapshot Snapshot to show
+ * @param title Title of the file, e.g. "Stripe - LLMS.txt"
+ */
+export function createSnapshotUri(snapshot: ContentSnapshot, title: string): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: LLMS_TXT_HISTORY_SCHEME,
+    authority: vscode.Uri.parse(snapshot.url).authority,
+    path: `/${title.replace(/[\\/]/g, '-')} (${formatSnapshotDate(snapshot)})`,
+    query: new URLSearchParams({ url: snapshot.url, id: snapshot.id }).toString()
+  })
+}
+
+/**
+ * Formats when a snapshot was fetched, e.g. "Oct 19, 2026, 10:32 AM"
+ */
+export function formatSnapshotDate(snapshot: ContentSnapshot): string {
+  return new Date(snapshot.fetchedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+/**
+ * Opens a diff between two snapshots of a file, the older one on the left
+ * @param left Older snapshot
+ * @param right Newer snapshot
+ * @param title Title of the file, e.g. "Stripe - LLMS.txt"
+ */
+export async function showSnapshotDiff(left: ContentSnapshot, right: ContentSnapshot, title: string): Promise<void> {
+  const uris = [createSnapshotUri(left, title), createSnapshotUri(right, title)]
+
+  // Open the documents first so they get llms.txt highlighting in the diff editor
+  for (const uri of uris) {
+    const document = await vscode.workspace.openTextDocument(uri)
+    if (document.languageId !== LLMS_TXT_LANGUAGE_ID) {
+      await vscode.languages.setTextDocumentLanguage(document, LLMS_TXT_LANGUAGE_ID)
+    }
+  }
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    uris[0],
+    uris[1],
+    `${title}: ${formatSnapshotDate(left)} ↔ ${formatSnapshotDate(right)}`
+  )
+}
+
+/**
+ * Provides the content of snapshot documents from the content history
+ */
+export class ContentHistoryProvider implements vscode.TextDocumentContentProvider {
+  private readonly history: ContentHistory
+
+  constructor(history: ContentHistory) {
+    this.history = history
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const params = new URLSearchParams(uri.query)
+    const url = params.get('url')
+    const id = params.get('id')
+    const content = url && id ? await this.history.read(url, id) : undefined
+    if (content === undefined) {
+      throw new Error(`Snapshot not found: ${uri.toString()}`)
+    }
+    return content
+  }
+}
@@ -1,59 +1,584 @@
 import * as vscode from 'vscode'
-import type { Website } from '../types'
-import { WebsiteItem } from '../treeItems'
+import type { FavoriteGroup, Website } from '../types'
+import { FavoriteGroupItem, LinkItem, SectionItem, WebsiteItem } from '../treeItems'
+import { getOutlineChildren, type OutlineItemType } from './outline'
+import type { FavoriteUpdate } from '../services/favoritesUpdatePoller'
+import { getDomainKey } from '../services/websiteService'
+import type { WorkspaceFavoritesService } from '../services/workspaceFavoritesService'
 
-export class FavoritesProvider implements vscode.TreeDataProvider<WebsiteItem> {
-  private _onDidChangeTreeData: vscode.EventEmitter<WebsiteItem | undefined | null> =
-    new vscode.EventEmitter<WebsiteItem | undefined | null>()
-  readonly onDidChangeTreeData: vscode.Event<WebsiteItem | undefined | null> =
+export type FavoriteTreeItemType = FavoriteGroupItem | WebsiteItem | OutlineItemType
+
+/**
+ * Mime type of websites dragged from the Websites or Favorites view
+ */
+export const WEBSITES_MIME_TYPE = 'application/vnd.llms-txt.websites'
+
+/**
+ * Mime type of favorite groups dragged within the Favorites view
+ */
+const GROUPS_MIME_TYPE = 'application/vnd.llms-txt.favorite-groups'
+
+/**
+ * Group that favorites are added to by default, and that favorites saved before groups existed move into
+ */
+export const DEFAULT_GROUP_ID = 'default'
+
+/**
+ * URI scheme identifying favorites, used to decorate the ones with updates
+ */
+const FAVORITE_SCHEME = 'llms-txt-favorite'
+
+/**
+ * A saved favorite that no longer matches the registry
+ */
+export interface FavoriteIssue {
+  /** `missing` when the registry no longer lists the website, `changed` when it lists other URLs */
+  kind: 'missing' | 'changed'
+  /** The favorite as saved */
+  favorite: Website
+  /** The registry's current entry, for changed favorites */
+  current?: Website
+}
+
+export class FavoritesProvider
+  implements
+    vscode.TreeDataProvider<FavoriteTreeItemType>,
+    vscode.TreeDragAndDropController<FavoriteTreeItemType>,
+    vscode.FileDecorationProvider
+{
+  private _onDidChangeTreeData: vscode.EventEmitter<FavoriteTreeItemType | undefined | null> =
+    new vscode.EventEmitter<FavoriteTreeItemType | undefined | null>()
+  readonly onDidChangeTreeData: vscode.Event<FavoriteTreeItemType | undefined | null> =
     this._onDidChangeTreeData.event
 
-  private static readonly FAVORITES_KEY = 'favoriteWebsites'
-  private favorites: Website[] = []
+  private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri[]>()
+  readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri[]> = this._onDidChangeFileDecorations.event
+
+  private _onDidChangeFavorites = new vscode.EventEmitter<void>()
+  /** Fires when websites are added to or removed from the favorites */
+  readonly onDidChangeFavorites: vscode.Event<void> = this._onDidChangeFavorites.event
+
+  readonly dragMimeTypes = [WEBSITES_MIME_TYPE, GROUPS_MIME_TYPE]
+  readonly dropMimeTypes = [WEBSITES_MIME_TYPE, GROUPS_MIME_TYPE]
+
+  // Favorites saved before groups existed, migrated into the default group
+  private static readonly LEGACY_FAVORITES_KEY = 'favoriteWebsites'
+  private static readonly GROUPS_KEY = 'favoriteGroups'
+  private static readonly UPDATES_KEY = 'favoriteUpdates'
+  private groups: FavoriteGroup[] = []
+  private updates: FavoriteUpdate[] = []
   private context: vscode.ExtensionContext
+  private treeView?: vscode.TreeView<FavoriteTreeItemType>
+  private workspaceFavorites?: WorkspaceFavoritesService
+  // Current registry entries by domain key, which favorites are shown and used from
+  private registry = new Map<string, Website>()
+  // Sources that failed to load, whose websites are not flagged as missing
+  private unavailableSources = new Set<string>()
+  private flaggedKeys = new Set<string>()
 
   constructor(context: vscode.ExtensionContext) {
     this.context = context
     this.loadFavorites()
   }
 
+  setTreeView(view: vscode.TreeView<FavoriteTreeItemType>): void {
+    this.treeView = view
+    this.updateBadge()
+  }
+
+  /**
+   * Shows the favorites shared through workspace favorites files alongside the personal ones
+   */
+  setWorkspaceFavorites(service: WorkspaceFavoritesService): vscode.Disposable {
+    this.workspaceFavorites = service
+    this._onDidChangeTreeData.fire(undefined)
+    return service.onDidChange(() => this._onDidChangeTreeData.fire(undefined))
+  }
+
+  /**
+   * Rehydrates favorites from the current registry, so they follow its URLs and descriptions,
+   * and flags the ones it no longer lists or lists with other URLs
+   * @param websites Websites of the registry
+   * @param failedSources Labels of the registry sources that failed to load; when omitted,
+   * the ones of the last registry load still apply
+   * @returns The issues that were not flagged before
+   */
+  reconcile(websites: Website[], failedSources?: string[]): FavoriteIssue[] {
+    this.registry = new Map(websites.map(website => [getDomainKey(website.domain), website]))
+    if (failedSources) {
+      this.unavailableSources = new Set(failedSources)
+    }
+
+    const issues = this.getIssues()
+    const newIssues = issues.filter(issue => !this.flaggedKeys.has(getDomainKey(issue.favorite.domain)))
+    this.flaggedKeys = new Set(issues.map(issue => getDomainKey(issue.favorite.domain)))
+    this._onDidChangeTreeData.fire(undefined)
+    return newIssues
+  }
+
+  /**
+   * Gets the personal favorites that no longer match the registry
+   */
+  getIssues(): FavoriteIssue[] {
+    return this.groups
+      .flatMap(group => group.websites)
+      .map(website => this.getIssue(website))
+      .filter((issue): issue is FavoriteIssue => issue !== undefined)
+  }
+
+  private getIssue(favorite: Website): FavoriteIssue | undefined {
+    // Without a registry there is nothing to compare with
+    if (this.registry.size === 0) {
+      return undefined
+    }
+    const current = this.registry.get(getDomainKey(favorite.domain))
+    if (!current) {
+      return favorite.source && this.unavailableSources.has(favorite.source) ? undefined : { kind: 'missing', favorite }
+    }
+    const changed = (current.llmsTxtUrl || '') !== (favorite.llmsTxtUrl || '') ||
+      (current.llmsFullTxtUrl || '') !== (favorite.llmsFullTxtUrl || '')
+    return changed ? { kind: 'changed', favorite, current } : undefined
+  }
+
+  /**
+   * Gets the registry's current entry for a favorite, or the favorite as saved when the registry does not list it
+   */
+  private hydrate(favorite: Website): Website {
+    return this.registry.get(getDomainKey(favorite.domain)) ?? favorite
+  }
+
+  /**
+   * Saves the registry's current entries of changed favorites, which clears their flags
+   */
+  async acceptRegistryChanges(websites: Website[]): Promise<void> {
+    const keys = new Set(websites.map(website => getDomainKey(website.domain)))
+    let accepted = false
+    for (const group of this.groups) {
+      group.websites = group.websites.map(favorite => {
+        const issue = keys.has(getDomainKey(favorite.domain)) ? this.getIssue(favorite) : undefined
+        if (issue?.current) {
+          accepted = true
+          return issue.current
+        }
+        return favorite
+      })
+    }
+    if (accepted) {
+      websites.forEach(website => this.flaggedKeys.delete(getDomainKey(website.domain)))
+      await this.saveFavorites()
+    }
+  }
+
+  /**
+   * Removes several favorites at once, e.g. the ones the registry no longer lists
+   */
+  async removeFavorites(websites: Website[]): Promise<void> {
+    const favorites = websites.filter(website => this.isFavorite(website))
+    if (favorites.length === 0) {
+      return
+    }
+    this.removeFromGroups(favorites.map(website => website.domain))
+    await this.saveFavorites()
+    for (const website of favorites) {
+      await this.clearUpdates(website.domain)
+    }
+    this._onDidChangeFavorites.fire()
+  }
+
   private loadFavorites(): void {
-    const savedFavorites = this.context.globalState.get<Website[]>(FavoritesProvider.FAVORITES_KEY, [])
-    this.favorites = savedFavorites
+    const savedGroups = this.context.globalState.get<FavoriteGroup[]>(FavoritesProvider.GROUPS_KEY)
+    if (savedGroups) {
+      this.groups = savedGroups
+    } else {
+      const legacyFavorites = this.context.globalState.get<Website[]>(FavoritesProvider.LEGACY_FAVORITES_KEY, [])
+      this.groups = [{ id: DEFAULT_GROUP_ID, name: 'Favorites', websites: legacyFavorites }]
+      this.saveFavorites()
+        .then(() => this.context.globalState.update(FavoritesProvider.LEGACY_FAVORITES_KEY, undefined))
+        .catch(error => console.error('Error migrating favorites into groups:', error))
+    }
+    this.updates = this.context.globalState.get<FavoriteUpdate[]>(FavoritesProvider.UPDATES_KEY, [])
   }
 
   private async saveFavorites(): Promise<void> {
-    await this.context.globalState.update(FavoritesProvider.FAVORITES_KEY, this.favorites)
+    await this.context.globalState.update(FavoritesProvider.GROUPS_KEY, this.groups)
+    this._onDidChangeTreeData.fire(undefined)
   }
 
-  async addFavorite(website: Website): Promise<void> {
-    if (!this.favorites.some(fav => fav.domain === website.domain)) {
-      this.favorites.push(website)
+  /**
+   * Adds a website to a group, or the default group
+   */
+  async addFavorite(website: Website, groupId = DEFAULT_GROUP_ID): Promise<void> {
+    if (!this.isFavorite(website)) {
+      this.getGroup(groupId).websites.push(website)
       await this.saveFavorites()
-      this._onDidChangeTreeData.fire(undefined)
+      this._onDidChangeFavorites.fire()
       vscode.window.showInformationMessage(`Added ${website.name} to favorites`)
     }
   }
 
   async removeFavorite(website: Website): Promise<void> {
-    const index = this.favorites.findIndex(fav => fav.domain === website.domain)
-    if (index !== -1) {
-      this.favorites.splice(index, 1)
+    if (this.isFavorite(website)) {
+      this.removeFromGroups([website.domain])
       await this.saveFavorites()
-      this._onDidChangeTreeData.fire(undefined)
+      await this.clearUpdates(website.domain)
+      this._onDidChangeFavorites.fire()
       vscode.window.showInformationMessage(`Removed ${website.name} from favorites`)
     }
   }
 
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined)
+  }
+
+  /**
+   * Gets all favorites, group by group, as currently listed in the registry
+   */
+  getFavorites(): Website[] {
+    return this.groups.flatMap(group => group.websites.map(website => this.hydrate(website)))
+  }
+
+  /**
+   * Gets the personal and workspace favorites, each website once
+   */
+  getAllFavorites(): Website[] {
+    const favorites = new Map<string, Website>()
+    for (const website of [...this.getFavorites(), ...this.getWorkspaceGroups().flatMap(group => group.websites)]) {
+      if (!favorites.has(getDomainKey(website.domain))) {
+        favorites.set(getDomainKey(website.domain), website)
+      }
+    }
+    return Array.from(favorites.values())
+  }
+
+  /**
+   * Gets the groups from workspace favorites files
+   */
+  getWorkspaceGroups(): FavoriteGroup[] {
+    return (this.workspaceFavorites?.getGroups() ?? []).map(group => this.hydrateGroup(group))
+  }
+
   isFavorite(website: Website): boolean {
-    return this.favorites.some(fav => fav.domain === website.domain)
+    const key = getDomainKey(website.domain)
+    return this.groups.some(group => group.websites.some(fav => getDomainKey(fav.domain) === key))
+  }
+
+  /**
+   * Gets the groups, in display order; the default group always exists
+   */
+  getGroups(): FavoriteGroup[] {
+    return this.groups.map(group => this.hydrateGroup(group))
+  }
+
+  private hydrateGroup(group: FavoriteGroup): FavoriteGroup {
+    return { ...group, websites: group.websites.map(website => this.hydrate(website)) }
+  }
+
+  /**
+   * Creates an empty group at the end
+   * @returns The new group
+   */
+  async createGroup(name: string): Promise<FavoriteGroup> {
+    const group: FavoriteGroup = { id: `group-${Date.now().toString(36)}`, name, websites: [] }
+    this.groups.push(group)
+    await this.saveFavorites()
+    return group
+  }
+
+  async renameGroup(groupId: string, name: string): Promise<void> {
+    this.getGroup(groupId).name = name
+    await this.saveFavorites()
+  }
+
+  /**
+   * Deletes a group, moving its favorites to the end of the default group
+   */
+  async deleteGroup(groupId: string): Promise<void> {
+    const group = this.groups.find(candidate => candidate.id === groupId)
+    if (!group || groupId === DEFAULT_GROUP_ID) {
+      return
+    }
+    this.groups = this.groups.filter(candidate => candidate !== group)
+    this.getGroup(DEFAULT_GROUP_ID).websites.push(...group.websites)
+    await this.saveFavorites()
+  }
+
+  /**
+   * Moves websites into a group, adding the ones that are not favorites yet
+   * @param websites Websites to move, in order
+   * @param groupId Group to move them to
+   * @param before Domain of the favorite to insert them before; the end of the group when omitted
+   */
+  async moveFavorites(websites: Website[], groupId: string, before?: string): Promise<void> {
+    const added = websites.some(website => !this.isFavorite(website))
+    // Keep favorites as saved, so moving one does not accept registry changes
+    const moved = websites
+      .filter(website => !before || getDomainKey(website.domain) !== getDomainKey(before))
+      .map(website => this.findFavorite(website) ?? website)
+    this.removeFromGroups(moved.map(website => website.domain))
+
+    const target = this.getGroup(groupId).websites
+    const index = before ? target.findIndex(website => getDomainKey(website.domain) === getDomainKey(before)) : -1
+    target.splice(index === -1 ? target.length : index, 0, ...moved)
+    await this.saveFavorites()
+    if (added) {
+      this._onDidChangeFavorites.fire()
+    }
+  }
+
+  /**
+   * Adds imported favorites to the groups of the same name, creating the missing groups.
+   * Websites that are already favorites stay where they are.
+   * @returns How many favorites were added
+   */
+  async importFavorites(groups: { name: string; websites: Website[] }[]): Promise<number> {
+    let added = 0
+    for (const imported of groups) {
+      const websites = imported.websites.filter(
+        (website, index) =>
+          !this.isFavorite(website) &&
+          imported.websites.findIndex(candidate => getDomainKey(candidate.domain) === getDomainKey(website.domain)) === index
+      )
+      if (websites.length === 0) {
+        continue
+      }
+      let group = this.groups.find(candidate => candidate.name === imported.name)
+      if (!group) {
+        group = { id: `group-${Date.now().toString(36)}-${this.groups.length}`, name: imported.name, websites: [] }
+        this.groups.push(group)
+      }
+      group.websites.push(...websites)
+      added += websites.length
+    }
+
+    if (added > 0) {
+      await this.saveFavorites()
+      this._onDidChangeFavorites.fire()
+    }
+    return added
+  }
+
+  private getGroup(groupId: string): FavoriteGroup {
+    let group = this.groups.find(candidate => candidate.id === groupId) ??
+      this.groups.find(candidate => candidate.id === DEFAULT_GROUP_ID)
+    if (!group) {
+      group = { id: DEFAULT_GROUP_ID, name: 'Favorites', websites: [] }
+      this.groups.unshift(group)
+    }
+    return group
+  }
+
+  private findFavorite(website: Website): Website | undefined {
+    const key = getDomainKey(website.domain)
+    return this.groups.flatMap(group => group.websites).find(favorite => getDomainKey(favorite.domain) === key)
+  }
+
+  private removeFromGroups(domains: string[]): void {
+    const keys = new Set(domains.map(getDomainKey))
+    for (const group of this.groups) {
+      group.websites = group.websites.filter(website => !keys.has(getDomainKey(website.domain)))
+    }
+  }
+
+  handleDrag(source: readonly FavoriteTreeItemType[], dataTransfer: vscode.DataTransfer): void {
+    const websites = source.filter((item): item is WebsiteItem => item instanceof WebsiteItem)
+    if (websites.length > 0) {
+      dataTransfer.set(WEBSITES_MIME_TYPE, new vscode.DataTransferItem(websites.map(item => item.website)))
+    }
+    const groups = source.filter((item): item is FavoriteGroupItem => item instanceof FavoriteGroupItem)
+    if (groups.length > 0) {
+      dataTransfer.set(GROUPS_MIME_TYPE, new vscode.DataTransferItem(groups.map(item => item.group.id)))
+    }
+  }
+
+  /**
+   * Handles favorites and websites from the Websites view dropped into a group or before a favorite,
+   * and groups dropped before another group
+   */
+  async handleDrop(target: FavoriteTreeItemType | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    // Dropping on a section or link of a favorite counts as dropping on the favorite
+    const dropTarget = target instanceof LinkItem ? target.parent.parent : target instanceof SectionItem ? target.parent : target
+
+    const groupIds: string[] | undefined = dataTransfer.get(GROUPS_MIME_TYPE)?.value
+    if (groupIds?.length) {
+      const beforeId = dropTarget instanceof FavoriteGroupItem
+        ? dropTarget.group.id
+        : dropTarget instanceof WebsiteItem ? dropTarget.groupId : undefined
+      const moved = this.groups.filter(group => groupIds.includes(group.id) && group.id !== beforeId)
+      this.groups = this.groups.filter(group => !moved.includes(group))
+      const index = this.groups.findIndex(group => group.id === beforeId)
+      this.groups.splice(index === -1 ? this.groups.length : index, 0, ...moved)
+      await this.saveFavorites()
+      return
+    }
+
+    const websites: Website[] | undefined = dataTransfer.get(WEBSITES_MIME_TYPE)?.value
+    if (!websites?.length) {
+      return
+    }
+
+    // Dropping into a workspace group adds the websites to its file
+    const targetGroupId = dropTarget instanceof FavoriteGroupItem
+      ? dropTarget.group.id
+      : dropTarget instanceof WebsiteItem ? dropTarget.groupId : undefined
+    const workspaceGroup = this.getWorkspaceGroups().find(group => group.id === targetGroupId)
+    if (workspaceGroup?.workspaceFolder) {
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(workspaceGroup.workspaceFolder))
+      if (workspaceFolder) {
+        await this.workspaceFavorites?.add(workspaceFolder, workspaceGroup.name, websites)
+      }
+      return
+    }
+
+    if (dropTarget instanceof FavoriteGroupItem) {
+      await this.moveFavorites(websites, dropTarget.group.id)
+    } else if (dropTarget instanceof WebsiteItem) {
+      await this.moveFavorites(websites, dropTarget.groupId ?? DEFAULT_GROUP_ID, dropTarget.website.domain)
+    } else {
+      await this.moveFavorites(websites, DEFAULT_GROUP_ID)
+    }
+  }
+
+  /**
+   * Marks favorites as updated, replacing earlier updates of the same files
+   */
+  async addUpdates(updates: FavoriteUpdate[]): Promise<void> {
+    const urls = new Set(updates.map(update => update.url))
+    this.updates = [
+      ...this.updates.filter(update => !urls.has(update.url)),
+      ...updates.map(update => {
+        // Keep the version from before the first unseen change, so the diff shows all of them
+        const earlier = this.updates.find(existing => existing.url === update.url)
+        return earlier?.previous ? { ...update, previous: earlier.previous } : update
+      })
+    ]
+    await this.saveUpdates(updates.map(update => update.domain))
   }
 
-  getTreeItem(element: WebsiteItem): vscode.TreeItem {
+  /**
+   * Gets the unseen updates, optionally only those of one favorite
+   */
+  getUpdates(domain?: string): FavoriteUpdate[] {
+    return domain ? this.updates.filter(update => update.domain === domain) : this.updates
+  }
+
+  /**
+   * Marks a favorite's updates as seen, or only the update of one of its files
+   */
+  async clearUpdates(domain: string, url?: string): Promise<void> {
+    const remaining = this.updates.filter(update => update.domain !== domain || (url !== undefined && update.url !== url))
+    if (remaining.length !== this.updates.length) {
+      this.updates = remaining
+      await this.saveUpdates([domain])
+    }
+  }
+
+  private async saveUpdates(domains: string[]): Promise<void> {
+    await this.context.globalState.update(FavoritesProvider.UPDATES_KEY, this.updates)
+    this.updateBadge()
+    this._onDidChangeFileDecorations.fire(domains.map(getFavoriteUri))
+  }
+
+  private updateBadge(): void {
+    if (!this.treeView) {
+      return
+    }
+    const count = new Set(this.updates.map(update => update.domain)).size
+    this.treeView.badge = count > 0
+      ? { value: count, tooltip: `${count} ${count === 1 ? 'favorite has' : 'favorites have'} updates` }
+      : undefined
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== FAVORITE_SCHEME) {
+      return undefined
+    }
+    const key = uri.path.slice(1)
+    const updates = this.updates.filter(update => getDomainKey(update.domain) === key)
+    if (updates.length === 0) {
+      return undefined
+    }
+    return {
+      badge: '●',
+      tooltip: `Updated: ${updates.map(update => update.kind).join(', ')}`,
+      color: new vscode.ThemeColor('charts.blue')
+    }
+  }
+
+  getTreeItem(element: FavoriteTreeItemType): vscode.TreeItem {
+    return element
+  }
+
+  /**
+   * Looks up the file sizes of a website when its tooltip is shown, then shows them in its description
+   */
+  async resolveTreeItem(item: vscode.TreeItem, element: FavoriteTreeItemType): Promise<vscode.TreeItem> {
+    if (element instanceof WebsiteItem && (await element.resolveFileSizes())) {
+      this._onDidChangeTreeData.fire(element)
+    }
     return element
   }
 
-  getChildren(): vscode.ProviderResult<WebsiteItem[]> {
-    return this.favorites.map(website => new WebsiteItem(website))
+  getChildren(element?: FavoriteTreeItemType): vscode.ProviderResult<FavoriteTreeItemType[]> {
+    if (!element) {
+      // Without user-created or workspace groups, the favorites are shown without a folder
+      const workspaceGroups = this.getWorkspaceGroups()
+      if (this.groups.length === 1 && workspaceGroups.length === 0) {
+        return this.createWebsiteItems(this.groups[0])
+      }
+      return [...this.groups, ...workspaceGroups].map(group => new FavoriteGroupItem(group, group.id === DEFAULT_GROUP_ID))
+    }
+
+    if (element instanceof FavoriteGroupItem) {
+      return this.createWebsiteItems(element.group)
+    }
+
+    if (element instanceof WebsiteItem || element instanceof SectionItem) {
+      return getOutlineChildren(element)
+    }
+
+    return []
+  }
+
+  private createWebsiteItems(group: FavoriteGroup): WebsiteItem[] {
+    return group.websites.map(favorite => {
+      const item = new WebsiteItem(this.hydrate(favorite), !group.workspaceFolder)
+      item.groupId = group.id
+      if (group.workspaceFolder) {
+        item.contextValue = 'website:workspace'
+      }
+
+      const issue = this.getIssue(favorite)
+      if (issue?.kind === 'missing') {
+        item.setWarning('Not in registry', 'The registry no longer lists this website. Its saved URLs may stop working.')
+        if (!group.workspaceFolder) {
+          item.contextValue = 'website:favorite:missing'
+        }
+      } else if (issue?.current && !group.workspaceFolder) {
+        item.setWarning('URLs changed', describeUrlChanges(favorite, issue.current))
+        item.contextValue = 'website:favorite:changed'
+      }
+
+      // Lets the decoration provider badge favorites with updates
+      item.resourceUri = getFavoriteUri(favorite.domain)
+      return item
+    })
+  }
+}
+
+function getFavoriteUri(domain: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: FAVORITE_SCHEME, path: `/${getDomainKey(domain)}` })
+}
+
+/**
+ * Describes how the registry changed the URLs of a favorite
+ */
+function describeUrlChanges(favorite: Website, current: Website): string {
+  const lines = ['The registry changed the URLs of this website since it was added to favorites:']
+  if ((favorite.llmsTxtUrl || '') !== (current.llmsTxtUrl || '')) {
+    lines.push(`LLMS.txt: ${favorite.llmsTxtUrl || 'none'} → ${current.llmsTxtUrl || 'none'}`)
+  }
+  if ((favorite.llmsFullTxtUrl || '') !== (current.llmsFullTxtUrl || '')) {
+    lines.push(`LLMS Full.txt: ${favorite.llmsFullTxtUrl || 'none'} → ${current.llmsFullTxtUrl || 'none'}`)
   }
+  return lines.join('\n')
 }
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode'
+import type { Website } from '../types'
+import { findWebsiteByDomain } from '../services/websiteService'
+import { findMarkdownSection, splitMarkdownSections, truncateText } from '../services/markdownSections'
+
+/**
+ * What the tools need from the extension, so they can be invoked with stubs and no live model
+ */
+export interface LanguageModelToolsHost {
+  findWebsites(query: string, category?: string): Website[]
+  getAllWebsites(): Website[]
+  fetchTxtContent(url: string): Promise<string>
+  /** Maximum number of characters returned by a single invocation */
+  getMaxCharacters(): number
+}
+
+interface SearchRegistryInput {
+  query: string
+  category?: string
+  limit?: number
+}
+
+interface GetLlmsTxtInput {
+  domain: string
+  full?: boolean
+}
+
+interface GetLlmsFullTxtSectionInput {
+  domain: string
+  section: string
+}
+
+const DEFAULT_SEARCH_LIMIT = 10
+const MAX_SEARCH_LIMIT = 50
+const DEFAULT_MAX_CHARACTERS = 40000
+
+function textResult(text: string): vscode.LanguageModelToolResult {
+  return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(text)])
+}
+
+/**
+ * Searches the registry with the same fuzzy matching as the Search Websites command
+ */
+export class SearchRegistryTool implements vscode.LanguageModelTool<SearchRegistryInput> {
+  static readonly NAME = 'llms-txt_searchRegistry'
+
+  private host: LanguageModelToolsHost
+
+  constructor(host: LanguageModelToolsHost) {
+    this.host = host
+  }
+
+  prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<SearchRegistryInput>): vscode.PreparedToolInvocation {
+    return { invocationMessage: `Searching the llms.txt registry for "${options.input.query}"` }
+  }
+
+  invoke(options: vscode.LanguageModelToolInvocationOptions<SearchRegistryInput>): vscode.LanguageModelToolResult {
+    const { query, category } = options.input
+    if (!query?.trim()) {
+      throw new Error('A search query is required')
+    }
+
+    const limit = Math.min(Math.max(options.input.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT)
+    const results = this.host.findWebsites(query, category).slice(0, limit)
+    if (results.length === 0) {
+      return textResult(`No websites in the llms.txt registry match "${query}".`)
+    }
+
+    const lines = results.map(website =>
+      [
+        `- ${website.name} (${website.domain})${website.category ? ` [${website.category}]` : ''}`,
+        website.description ? `  ${website.description}` : undefined,
+        website.llmsTxtUrl ? `  llms.txt: ${website.llmsTxtUrl}` : undefined,
+        website.llmsFullTxtUrl ? `  llms-full.txt: ${website.llmsFullTxtUrl}` : undefined
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    return textResult(`Found ${results.length} website(s) matching "${query}":\n\n${lines.join('\n')}`)
+  }
+}
+
+/**
+ * Returns the llms.txt or llms-full.txt of a website, truncated to the configured size
+ */
+export class GetLlmsTxtTool implements vscode.LanguageModelTool<GetLlmsTxtInput> {
+  static readonly NAME = 'llms-txt_getLlmsTxt'
+
+  private host: LanguageModelToolsHost
+
+  constructor(host: LanguageModelToolsHost) {
+    this.host = host
+  }
+
+  prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<GetLlmsTxtInput>): vscode.PreparedToolInvocation {
+    const website = findWebsiteByDomain(this.host.getAllWebsites(), options.input.domain)
+    const file = options.input.full ? 'llms-full.txt' : 'llms.txt'
+    const url = options.input.full ? website?.llmsFullTxtUrl : website?.llmsTxtUrl
+    return {
+      invocationMessage: `Fetching ${file} for ${website?.name ?? options.input.domain}`,
+      confirmationMessages: {
+        title: `Fetch ${file}?`,
+        message: new vscode.MarkdownString(
+          `Fetch the ${file} of **${website?.name ?? options.input.domain}**${url ? ` from ${url}` : ''} and add up to ${this.host.getMaxCharacters()} characters of it to the chat?`
+        )
+      }
+    }
+  }
+
+  async invoke(options: vscode.LanguageModelToolInvocationOptions<GetLlmsTxtInput>): Promise<vscode.LanguageModelToolResult> {
+    const website = findWebsiteByDomain(this.host.getAllWebsites(), options.input.domain)
+    if (!website) {
+      throw new Error(`No website matching "${options.input.domain}" in the llms.txt registry. Search the registry first.`)
+    }
+
+    const file = options.input.full ? 'llms-full.txt' : 'llms.txt'
+    const url = options.input.full ? website.llmsFullTxtUrl : website.llmsTxtUrl
+    if (!url) {
+      throw new Error(`${website.name} does not publish an ${file}`)
+    }
+
+    const content = await this.host.fetchTxtContent(url)
+    return textResult(`${file} of ${website.name} (${url}):\n\n${truncateText(content, this.host.getMaxCharacters())}`)
+  }
+}
+
+/**
+ * Returns a single section of a website's llms-full.txt, for files too large to return whole
+ */
+export class GetLlmsFullTxtSectionTool implements vscode.LanguageModelTool<GetLlmsFullTxtSectionInput> {
+  static readonly NAME = 'llms-txt_getLlmsFullTxtSection'
+
+  private host: LanguageModelToolsHost
+
+  constructor(host: LanguageModelToolsHost) {
+    this.host = host
+  }
+
+  prepareInvocation(
+    options: vscode.LanguageModelToolInvocationPrepareOptions<GetLlmsFullTxtSectionInput>
+  ): vscode.PreparedToolInvocation {
+    const website = findWebsiteByDomain(this.host.getAllWebsites(), options.input.domain)
+    const name = website?.name ?? options.input.domain
+    return {
+      invocationMessage: `Reading "${options.input.section}" from the llms-full.txt of ${name}`,
+      confirmationMessages: {
+        title: 'Fetch llms-full.txt section?',
+        message: new vscode.MarkdownString(
+          `Fetch the llms-full.txt of **${name}** and add its "${options.input.section}" section to the chat?`
+        )
+      }
+    }
+  }
+
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<GetLlmsFullTxtSectionInput>
+  ): Promise<vscode.LanguageModelToolResult> {
+    // An empty heading would match the first section
+    if (!options.input.section?.trim()) {
+      throw new Error('A section heading is required')
+    }
+    const website = findWebsiteByDomain(this.host.getAllWebsites(), options.input.domain)
+    if (!website) {
+      throw new Error(`No website matching "${options.input.domain}" in the llms.txt registry. Search the registry first.`)
+    }
+    if (!website.llmsFullTxtUrl) {
+      throw new Error(`${website.name} does not publish an llms-full.txt`)
+    }
+
+    const content = await this.host.fetchTxtContent(website.llmsFullTxtUrl)
+    const section = findMarkdownSection(content, options.input.section)
+    if (!section) {
+      // Help the model pick a valid section on its next call
+      const titles = splitMarkdownSections(content)
+        .filter(candidate => candidate.level <= 2)
+        .map(candidate => `- ${candidate.title}`)
+      return textResult(
+        `No section matching "${options.input.section}" in the llms-full.txt of ${website.name}. Available sections:\n\n${truncateText(titles.join('\n'), this.host.getMaxCharacters())}`
+      )
+    }
+
+    return textResult(
+      `Section "${section.title}" of the llms-full.txt of ${website.name}:\n\n${truncateText(section.text, this.host.getMaxCharacters())}`
+    )
+  }
+}
+
+/**
+ * Registers the llms.txt tools for agent mode and other language model consumers
+ */
+export function registerLanguageModelTools(host: LanguageModelToolsHost): vscode.Disposable {
+  // The tools API is not available in older VS Code versions
+  if (typeof vscode.lm?.registerTool !== 'function') {
+    return new vscode.Disposable(() => undefined)
+  }
+
+  return vscode.Disposable.from(
+    vscode.lm.registerTool(SearchRegistryTool.NAME, new SearchRegistryTool(host)),
+    vscode.lm.registerTool(GetLlmsTxtTool.NAME, new GetLlmsTxtTool(host)),
+    vscode.lm.registerTool(GetLlmsFullTxtSectionTool.NAME, new GetLlmsFullTxtSectionTool(host))
+  )
+}
+
+/**
+ * Reads the `llms-txt.tools.maxCharacters` setting
+ */
+export function getToolsMaxCharacters(): number {
+  return vscode.workspace.getConfiguration('llms-txt').get<number>('tools.maxCharacters', DEFAULT_MAX_CHARACTERS)
+}
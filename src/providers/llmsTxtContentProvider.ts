@@ -0,0 +1,134 @@
+import * as vscode from 'vscode'
+import { fetchTxtContent } from '../services/websiteService'
+import type { ContentHistory, ViewedChange } from '../services/contentHistory'
+
+/**
+ * URI scheme of read-only documents showing fetched llms.txt content
+ */
+export const LLMS_TXT_SCHEME = 'llms-txt'
+
+// Titles of the viewed documents, by URL. Titles are not part of the URIs, which would
+// otherwise differ for the same file viewed from different places or after a site is renamed.
+const contentTitles = new Map<string, string>()
+
+/**
+ * Builds the URI of a read-only document for fetched content. URIs are keyed by the URL,
+ * e.g. "llms-txt://docs.stripe.com/llms.txt?url=…", so viewing a file twice reuses the open tab.
+ * @param url URL of the content
+ * @param title Title of the document, e.g. "Stripe - LLMS.txt", shown in messages and link trails
+ * @param linkedFrom Document the content was opened from by following a link
+ */
+export function createContentUri(url: string, title: string, linkedFrom?: vscode.Uri): vscode.Uri {
+  contentTitles.set(url, title)
+  const source = vscode.Uri.parse(url)
+  const query = new URLSearchParams({ url })
+  if (linkedFrom) {
+    query.set('from', linkedFrom.toString())
+  }
+  return vscode.Uri.from({
+    scheme: LLMS_TXT_SCHEME,
+    authority: source.authority,
+    path: source.path && source.path !== '/' ? source.path : '/llms.txt',
+    query: query.toString()
+  })
+}
+
+/**
+ * Gets the title a content URI was last opened with, or its file name
+ */
+export function getContentTitle(uri: vscode.Uri): string {
+  const url = getSourceUrl(uri)
+  return (url && contentTitles.get(url)) || `${uri.authority} - ${uri.path.split('/').pop()}`
+}
+
+/**
+ * Gets the URL a content URI was created for
+ */
+export function getSourceUrl(uri: vscode.Uri): string | undefined {
+  if (uri.scheme !== LLMS_TXT_SCHEME) {
+    return undefined
+  }
+  return new URLSearchParams(uri.query).get('url') ?? undefined
+}
+
+/**
+ * Gets the documents a content URI was reached from by following links, starting with the index
+ */
+export function getLinkTrail(uri: vscode.Uri): vscode.Uri[] {
+  const trail: vscode.Uri[] = []
+  let from = new URLSearchParams(uri.query).get('from')
+  while (from) {
+    const parent = vscode.Uri.parse(from)
+    trail.unshift(parent)
+    from = new URLSearchParams(parent.query).get('from')
+  }
+  return trail
+}
+
+/**
+ * Shows the trail of documents followed to reach a linked doc above its first line,
+ * each opening its document when clicked
+ */
+export class LinkTrailCodeLensProvider implements vscode.CodeLensProvider {
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const range = new vscode.Range(0, 0, 0, 0)
+    return getLinkTrail(document.uri).map(
+      (uri, index) =>
+        new vscode.CodeLens(range, {
+          title: `${index === 0 ? '$(arrow-left) ' : '› '}${getContentTitle(uri)}`,
+          tooltip: `Back to ${getSourceUrl(uri)}`,
+          command: 'vscode.open',
+          arguments: [uri]
+        })
+    )
+  }
+}
+
+/**
+ * Provides the content of read-only llms.txt documents, fetched through the content cache.
+ * Each view is recorded in the content history.
+ */
+export class LlmsTxtContentProvider implements vscode.TextDocumentContentProvider {
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>()
+  readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event
+
+  private _onDidViewChangedContent = new vscode.EventEmitter<{ uri: vscode.Uri; change: ViewedChange }>()
+  /** Fires when a document is viewed and its content changed since it was last viewed */
+  readonly onDidViewChangedContent = this._onDidViewChangedContent.event
+
+  private readonly history?: ContentHistory
+
+  constructor(history?: ContentHistory) {
+    this.history = history
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const url = getSourceUrl(uri)
+    if (!url) {
+      throw new Error(`Invalid LLMS.txt document: ${uri.toString()}`)
+    }
+
+    const content = await fetchTxtContent(url)
+    if (this.history) {
+      const history = this.history
+      history
+        .record(url, content)
+        .then(() => history.markViewed(url))
+        .then(change => change && this._onDidViewChangedContent.fire({ uri, change }))
+        .catch(error => console.error(`Error recording the history of ${url}:`, error))
+    }
+    return content
+  }
+
+  /**
+   * Fetches the content of an open document again
+   */
+  reload(uri: vscode.Uri): void {
+    this._onDidChange.fire(uri)
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose()
+    this._onDidViewChangedContent.dispose()
+  }
+}
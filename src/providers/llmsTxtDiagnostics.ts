@@ -0,0 +1,130 @@
+import * as vscode from 'vscode'
+import * as path from 'node:path'
+import type { LlmsFileKind } from '../types'
+import { validateLlmsTxt, type ValidationIssue } from '../services/llmsTxtValidator'
+import { LLMS_TXT_SCHEME } from './llmsTxtContentProvider'
+
+/**
+ * Document selector matching llms.txt and llms-full.txt files
+ */
+export const LLMS_TXT_FILE_SELECTOR: vscode.DocumentSelector = [
+  { pattern: '**/llms.txt' },
+  { pattern: '**/llms-full.txt' }
+]
+
+/**
+ * Gets which llms.txt file a document is, if any
+ */
+export function getLlmsFileKind(document: vscode.TextDocument): LlmsFileKind | undefined {
+  // Fetched files are other sites' and read-only, so there is nothing to fix in them
+  if (document.uri.scheme === LLMS_TXT_SCHEME) {
+    return undefined
+  }
+  const name = path.basename(document.uri.path).toLowerCase()
+  if (name === 'llms.txt' || name === 'llms-full.txt') {
+    return name
+  }
+  return undefined
+}
+
+/**
+ * Reports llms.txt format violations as diagnostics and offers quick fixes for them
+ */
+export class LlmsTxtDiagnosticsProvider implements vscode.CodeActionProvider, vscode.Disposable {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+  private diagnostics = vscode.languages.createDiagnosticCollection('llms-txt')
+  private disposables: vscode.Disposable[] = []
+  private pendingValidations = new Map<string, NodeJS.Timeout>()
+
+  constructor() {
+    this.disposables.push(
+      this.diagnostics,
+      vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        this.diagnostics.delete(document.uri)
+      }),
+      vscode.languages.registerCodeActionsProvider(LLMS_TXT_FILE_SELECTOR, this, {
+        providedCodeActionKinds: LlmsTxtDiagnosticsProvider.providedCodeActionKinds
+      })
+    )
+
+    // Validate documents that were already open before activation
+    vscode.workspace.textDocuments.forEach(document => this.validate(document))
+  }
+
+  /**
+   * Validates a document and publishes its diagnostics
+   */
+  validate(document: vscode.TextDocument): void {
+    const kind = getLlmsFileKind(document)
+    if (!kind) {
+      return
+    }
+
+    const issues = validateLlmsTxt(document.getText(), kind)
+    this.diagnostics.set(document.uri, issues.map(issue => this.toDiagnostic(issue)))
+  }
+
+  /**
+   * Validates a document shortly after the user stops typing
+   */
+  private scheduleValidation(document: vscode.TextDocument): void {
+    const key = document.uri.toString()
+    clearTimeout(this.pendingValidations.get(key))
+    this.pendingValidations.set(
+      key,
+      setTimeout(() => {
+        this.pendingValidations.delete(key)
+        this.validate(document)
+      }, 300)
+    )
+  }
+
+  private toDiagnostic(issue: ValidationIssue): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(issue.line, issue.startColumn, issue.line, issue.endColumn),
+      issue.message,
+      issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    )
+    diagnostic.source = 'llms.txt'
+    diagnostic.code = issue.code
+    return diagnostic
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const kind = getLlmsFileKind(document)
+    if (!kind || context.diagnostics.every(diagnostic => diagnostic.source !== 'llms.txt')) {
+      return []
+    }
+
+    // Recompute the issues so fixes always match the current content
+    return validateLlmsTxt(document.getText(), kind)
+      .filter(issue => issue.fix && issue.line >= range.start.line && issue.line <= range.end.line)
+      .map(issue => {
+        const fix = issue.fix!
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix)
+        action.edit = new vscode.WorkspaceEdit()
+        action.edit.replace(
+          document.uri,
+          new vscode.Range(fix.startLine, 0, Math.min(fix.endLine, document.lineCount), 0),
+          fix.newText
+        )
+        action.diagnostics = context.diagnostics.filter(
+          diagnostic => diagnostic.code === issue.code && diagnostic.range.start.line === issue.line
+        )
+        action.isPreferred = true
+        return action
+      })
+  }
+
+  dispose(): void {
+    this.pendingValidations.forEach(timeout => clearTimeout(timeout))
+    this.disposables.forEach(disposable => disposable.dispose())
+  }
+}
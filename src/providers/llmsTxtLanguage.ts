@@ -0,0 +1,248 @@
+import * as vscode from 'vscode'
+import { LINK_ENTRY_PATTERN } from '../services/llmsTxtParser'
+import { isDocUrl } from '../services/markdownRenderer'
+import { LLMS_TXT_SCHEME, LinkTrailCodeLensProvider, createContentUri, getContentTitle, getLinkTrail, getSourceUrl } from './llmsTxtContentProvider'
+
+/**
+ * Language id registered for llms.txt and llms-full.txt files
+ */
+export const LLMS_TXT_LANGUAGE_ID = 'llms-txt'
+
+interface Heading {
+  level: number
+  title: string
+  line: number
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+const MARKDOWN_LINK_PATTERN = /\]\(\s*<?(https?:\/\/[^\s)>]+)>?/g
+const BARE_URL_PATTERN = /https?:\/\/[^\s<>()[\]"'`]+[^\s<>()[\]"'`.,;:!?]/g
+// Markdown links with their text, relative ones included, followed in fetched documents
+const TITLED_LINK_PATTERN = /\[([^\]]*)\]\(\s*<?([^\s)>]+)>?/g
+
+/**
+ * Finds the markdown headings of a document, skipping fenced code blocks
+ * so `#` comments in code are not mistaken for sections
+ */
+function findHeadings(document: vscode.TextDocument): Heading[] {
+  const headings: Heading[] = []
+  let inFence = false
+
+  for (let line = 0; line < document.lineCount; line++) {
+    const text = document.lineAt(line).text
+    if (FENCE_PATTERN.test(text)) {
+      inFence = !inFence
+      continue
+    }
+    if (inFence) {
+      continue
+    }
+
+    const match = HEADING_PATTERN.exec(text)
+    if (match) {
+      headings.push({ level: match[1].length, title: match[2], line })
+    }
+  }
+  return headings
+}
+
+/**
+ * Gets the last line of a heading's section: the line before the next heading
+ * of the same or a higher level, ignoring trailing blank lines
+ */
+function getSectionEnd(document: vscode.TextDocument, headings: Heading[], index: number): number {
+  const heading = headings[index]
+  const next = headings.slice(index + 1).find(candidate => candidate.level <= heading.level)
+  let end = next ? next.line - 1 : document.lineCount - 1
+  while (end > heading.line && document.lineAt(end).isEmptyOrWhitespace) {
+    end--
+  }
+  return end
+}
+
+/**
+ * Lists sections and link entries in the Outline view and breadcrumbs
+ */
+export class LlmsTxtDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const headings = findHeadings(document)
+    const roots: vscode.DocumentSymbol[] = []
+    const stack: { level: number; symbol: vscode.DocumentSymbol }[] = []
+
+    headings.forEach((heading, index) => {
+      const end = getSectionEnd(document, headings, index)
+      const symbol = new vscode.DocumentSymbol(
+        heading.title,
+        '',
+        heading.level === 1 ? vscode.SymbolKind.Module : vscode.SymbolKind.Namespace,
+        new vscode.Range(heading.line, 0, end, document.lineAt(end).text.length),
+        document.lineAt(heading.line).range
+      )
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+        stack.pop()
+      }
+      const parent = stack[stack.length - 1]
+      if (parent) {
+        parent.symbol.children.push(symbol)
+      } else {
+        roots.push(symbol)
+      }
+      stack.push({ level: heading.level, symbol })
+
+      // Link entries directly under this heading, up to the next heading
+      const nextHeading = headings[index + 1]?.line ?? document.lineCount
+      for (let line = heading.line + 1; line < nextHeading; line++) {
+        const match = LINK_ENTRY_PATTERN.exec(document.lineAt(line).text)
+        if (match) {
+          const range = document.lineAt(line).range
+          symbol.children.push(new vscode.DocumentSymbol(match[1], match[2], vscode.SymbolKind.File, range, range))
+        }
+      }
+    })
+
+    return roots
+  }
+}
+
+/**
+ * Folds each section, and fenced code blocks
+ */
+export class LlmsTxtFoldingRangeProvider implements vscode.FoldingRangeProvider {
+  provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    const headings = findHeadings(document)
+    const ranges = headings
+      .map((heading, index) => new vscode.FoldingRange(heading.line, getSectionEnd(document, headings, index)))
+      .filter(range => range.end > range.start)
+
+    let fenceStart: number | undefined
+    for (let line = 0; line < document.lineCount; line++) {
+      if (FENCE_PATTERN.test(document.lineAt(line).text)) {
+        if (fenceStart === undefined) {
+          fenceStart = line
+        } else {
+          ranges.push(new vscode.FoldingRange(fenceStart, line, vscode.FoldingRangeKind.Region))
+          fenceStart = undefined
+        }
+      }
+    }
+
+    return ranges
+  }
+}
+
+/**
+ * Makes every URL listed in the document clickable. In fetched documents, links to markdown
+ * and text docs, relative ones included, open the doc as a read-only document too.
+ */
+export class LlmsTxtDocumentLinkProvider implements vscode.DocumentLinkProvider {
+  provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    const links: vscode.DocumentLink[] = []
+    const sourceUrl = document.uri.scheme === LLMS_TXT_SCHEME ? getSourceUrl(document.uri) : undefined
+
+    for (let line = 0; line < document.lineCount; line++) {
+      const text = document.lineAt(line).text
+      const covered: [number, number][] = []
+      const isCovered = (start: number) => covered.some(([from, to]) => start >= from && start < to)
+
+      if (sourceUrl) {
+        for (const match of text.matchAll(TITLED_LINK_PATTERN)) {
+          const url = resolveUrl(match[2], sourceUrl)
+          if (url && isDocUrl(url)) {
+            const start = match.index! + match[0].indexOf(match[2], match[1].length + 2)
+            covered.push([start, start + match[2].length])
+            links.push(this.createDocLink(document, line, start, match[2].length, url, match[1]))
+          }
+        }
+      }
+
+      for (const match of text.matchAll(MARKDOWN_LINK_PATTERN)) {
+        const start = match.index! + match[0].indexOf(match[1])
+        if (!isCovered(start)) {
+          covered.push([start, start + match[1].length])
+          links.push(this.createLink(line, start, match[1]))
+        }
+      }
+
+      // Bare URLs outside of markdown links
+      for (const match of text.matchAll(BARE_URL_PATTERN)) {
+        const start = match.index!
+        if (isCovered(start)) {
+          continue
+        }
+        links.push(
+          sourceUrl && isDocUrl(match[0])
+            ? this.createDocLink(document, line, start, match[0].length, match[0], '')
+            : this.createLink(line, start, match[0])
+        )
+      }
+    }
+
+    return links
+  }
+
+  private createLink(line: number, start: number, url: string): vscode.DocumentLink {
+    const link = new vscode.DocumentLink(new vscode.Range(line, start, line, start + url.length), vscode.Uri.parse(url))
+    link.tooltip = url
+    return link
+  }
+
+  /**
+   * Creates a link opening a doc as a read-only document that remembers the document linking to it
+   */
+  private createDocLink(
+    document: vscode.TextDocument,
+    line: number,
+    start: number,
+    length: number,
+    url: string,
+    linkText: string
+  ): vscode.DocumentLink {
+    const target = createContentUri(url, getLinkedDocTitle(document.uri, url, linkText), document.uri)
+    const link = new vscode.DocumentLink(new vscode.Range(line, start, line, start + length), target)
+    link.tooltip = `Open ${url}`
+    return link
+  }
+}
+
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+  try {
+    return new URL(href, baseUrl).toString()
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Titles a linked doc after the website of the index the link trail starts at,
+ * e.g. "Stripe - Webhooks" for a doc linked from "Stripe - LLMS.txt"
+ */
+function getLinkedDocTitle(linkedFrom: vscode.Uri, url: string, linkText: string): string {
+  const indexTitle = getContentTitle(getLinkTrail(linkedFrom)[0] ?? linkedFrom)
+  const separator = indexTitle.lastIndexOf(' - ')
+  const website = separator === -1 ? indexTitle : indexTitle.slice(0, separator)
+  const title = linkText.trim() || new URL(url).pathname.split('/').pop() || url
+  return `${website} - ${title}`
+}
+
+/**
+ * Registers the language features for llms.txt documents
+ */
+export function registerLlmsTxtLanguageFeatures(): vscode.Disposable {
+  const selector: vscode.DocumentSelector = { language: LLMS_TXT_LANGUAGE_ID }
+  return vscode.Disposable.from(
+    vscode.languages.registerDocumentSymbolProvider(selector, new LlmsTxtDocumentSymbolProvider(), {
+      label: 'LLMS.txt'
+    }),
+    vscode.languages.registerFoldingRangeProvider(selector, new LlmsTxtFoldingRangeProvider()),
+    vscode.languages.registerDocumentLinkProvider(selector, new LlmsTxtDocumentLinkProvider()),
+    vscode.languages.registerCodeLensProvider({ scheme: LLMS_TXT_SCHEME }, new LinkTrailCodeLensProvider()),
+    // Docs opened by following a link are read as llms.txt documents too, so their links can be followed
+    vscode.workspace.onDidOpenTextDocument(document => {
+      if (document.uri.scheme === LLMS_TXT_SCHEME && document.languageId !== LLMS_TXT_LANGUAGE_ID) {
+        vscode.languages.setTextDocumentLanguage(document, LLMS_TXT_LANGUAGE_ID)
+      }
+    })
+  )
+}
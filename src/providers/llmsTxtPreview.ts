@@ -0,0 +1,310 @@
+import * as vscode from 'vscode'
+import { randomBytes } from 'node:crypto'
+import type { LlmsFileKind, Website } from '../types'
+import { fetchTxtContent, getDomainKey } from '../services/websiteService'
+import { type RenderedMarkdown, escapeHtml, renderMarkdown } from '../services/markdownRenderer'
+import { splitMarkdownSections } from '../services/markdownSections'
+import { confirmLargeFile, viewTxtContent } from '../utils'
+
+/**
+ * View type of the rendered LLMS.txt preview panels
+ */
+export const PREVIEW_VIEW_TYPE = 'llms-txt.preview'
+
+/**
+ * A document shown in a preview
+ */
+export interface PreviewDocument {
+  url: string
+  /** Title of the document, e.g. "Stripe - LLMS.txt" */
+  title: string
+}
+
+// Headings deeper than this are left out of the sidebar
+const SIDEBAR_MAX_LEVEL = 3
+
+/**
+ * Messages posted by the preview's script
+ */
+type PreviewMessage =
+  | { type: 'navigate'; url: string; title: string }
+  | { type: 'back' }
+  | { type: 'forward' }
+  | { type: 'switchFile'; kind: LlmsFileKind }
+  | { type: 'copySection'; line: number }
+  | { type: 'copyLink'; url: string }
+  | { type: 'openExternal'; url: string }
+  | { type: 'openAsText' }
+  | { type: 'reload' }
+  | { type: 'scroll'; y: number; renderId: string }
+
+/**
+ * Shows llms.txt files rendered as markdown in webview panels, one per website.
+ * Links to other markdown docs open in the same panel, with back and forward history.
+ */
+export class LlmsTxtPreviewManager implements vscode.Disposable {
+  private _onDidShowDocument = new vscode.EventEmitter<{ url: string; website?: Website }>()
+  /** Fires with the URL of each document a preview shows, and the website of the preview */
+  readonly onDidShowDocument: vscode.Event<{ url: string; website?: Website }> = this._onDidShowDocument.event
+
+  private extensionUri: vscode.Uri
+  private panels = new Map<string, LlmsTxtPreviewPanel>()
+
+  constructor(extensionUri: vscode.Uri) {
+    this.extensionUri = extensionUri
+  }
+
+  /**
+   * Shows a document in the preview of its website, opening the preview when there is none
+   * @param website Website the document belongs to, which enables switching between its files
+   */
+  async show(document: PreviewDocument, website?: Website): Promise<void> {
+    const key = website ? getDomainKey(website.domain) : document.url
+    const existing = this.panels.get(key)
+    if (existing) {
+      existing.reveal()
+      if (existing.getDocument()?.url !== document.url) {
+        await existing.navigate(document)
+      }
+      return
+    }
+
+    const panel = new LlmsTxtPreviewPanel(this.extensionUri, website, url => this._onDidShowDocument.fire({ url, website }))
+    this.panels.set(key, panel)
+    panel.onDidDispose(() => this.panels.delete(key))
+    await panel.navigate(document)
+  }
+
+  dispose(): void {
+    this.panels.forEach(panel => panel.dispose())
+    this._onDidShowDocument.dispose()
+  }
+}
+
+/**
+ * A preview panel with its navigation history
+ */
+class LlmsTxtPreviewPanel implements vscode.Disposable {
+  private _onDidDispose = new vscode.EventEmitter<void>()
+  readonly onDidDispose: vscode.Event<void> = this._onDidDispose.event
+
+  private panel: vscode.WebviewPanel
+  private extensionUri: vscode.Uri
+  private website?: Website
+  private onDidShow: (url: string) => void
+  private history: (PreviewDocument & { scrollY?: number })[] = []
+  private position = -1
+  private content = ''
+  // Identifies the latest load, so slower earlier loads do not replace it
+  private renderId = 0
+  private disposables: vscode.Disposable[] = []
+
+  constructor(extensionUri: vscode.Uri, website: Website | undefined, onDidShow: (url: string) => void) {
+    this.extensionUri = extensionUri
+    this.website = website
+    this.onDidShow = onDidShow
+    this.panel = vscode.window.createWebviewPanel(PREVIEW_VIEW_TYPE, 'LLMS.txt Preview', vscode.ViewColumn.Active, {
+      enableScripts: true,
+      localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+    })
+    this.panel.iconPath = vscode.Uri.joinPath(extensionUri, 'images', 'icon.png')
+    this.disposables.push(
+      this.panel.webview.onDidReceiveMessage((message: PreviewMessage) => {
+        this.handleMessage(message).catch(error => {
+          vscode.window.showErrorMessage(`LLMS.txt preview: ${error instanceof Error ? error.message : error}`)
+        })
+      }),
+      this.panel.onDidDispose(() => this.dispose())
+    )
+  }
+
+  getDocument(): PreviewDocument | undefined {
+    return this.history[this.position]
+  }
+
+  reveal(): void {
+    this.panel.reveal()
+  }
+
+  /**
+   * Shows a document, dropping the documents ahead of the current one from the history
+   */
+  async navigate(document: PreviewDocument): Promise<void> {
+    this.history = [...this.history.slice(0, this.position + 1), document]
+    this.position = this.history.length - 1
+    await this.load()
+  }
+
+  private async handleMessage(message: PreviewMessage): Promise<void> {
+    switch (message.type) {
+      case 'navigate':
+        await this.navigate({ url: message.url, title: this.getLinkedDocTitle(message.url, message.title) })
+        break
+      case 'back':
+      case 'forward': {
+        const position = this.position + (message.type === 'back' ? -1 : 1)
+        if (position >= 0 && position < this.history.length) {
+          this.position = position
+          await this.load()
+        }
+        break
+      }
+      case 'switchFile':
+        await this.switchFile(message.kind)
+        break
+      case 'copySection': {
+        const section = splitMarkdownSections(this.content).find(candidate => candidate.line === message.line)
+        if (section) {
+          await vscode.env.clipboard.writeText(section.text)
+          vscode.window.setStatusBarMessage(`Copied section "${section.title}"`, 3000)
+        }
+        break
+      }
+      case 'copyLink':
+        await vscode.env.clipboard.writeText(message.url)
+        vscode.window.setStatusBarMessage('Copied link', 3000)
+        break
+      case 'openExternal':
+        if (/^(https?|mailto):/i.test(message.url)) {
+          await vscode.env.openExternal(vscode.Uri.parse(message.url))
+        }
+        break
+      case 'openAsText': {
+        const document = this.getDocument()
+        if (document) {
+          await viewTxtContent(document.url, document.title)
+        }
+        break
+      }
+      case 'reload':
+        await this.load()
+        break
+      case 'scroll':
+        // Ignore scrolling the previous document while the next one loads
+        if (message.renderId === String(this.renderId) && this.history[this.position]) {
+          this.history[this.position].scrollY = message.y
+        }
+        break
+    }
+  }
+
+  /**
+   * Shows the website's llms.txt or llms-full.txt
+   */
+  private async switchFile(kind: LlmsFileKind): Promise<void> {
+    const url = kind === 'llms.txt' ? this.website?.llmsTxtUrl : this.website?.llmsFullTxtUrl
+    if (!this.website || !url) {
+      return
+    }
+    const title = `${this.website.name} - ${kind === 'llms.txt' ? 'LLMS.txt' : 'LLMS Full.txt'}`
+    if (await confirmLargeFile(url, title, 'Open')) {
+      await this.navigate({ url, title })
+    }
+  }
+
+  private getLinkedDocTitle(url: string, linkText: string): string {
+    const name = this.website?.name ?? new URL(url).hostname
+    const title = linkText.trim() || url.slice(url.lastIndexOf('/') + 1)
+    return `${name} - ${title}`
+  }
+
+  /**
+   * Fetches and renders the current document
+   */
+  private async load(): Promise<void> {
+    const document = this.getDocument()
+    if (!document) {
+      return
+    }
+    const renderId = ++this.renderId
+    this.panel.title = `Preview ${document.title}`
+    this.panel.webview.postMessage({ type: 'loading' })
+
+    try {
+      const content = await fetchTxtContent(document.url)
+      if (renderId !== this.renderId) {
+        return
+      }
+      this.content = content
+      this.panel.webview.html = this.getHtml(document, renderMarkdown(content, document.url))
+      this.onDidShow(document.url)
+    } catch (error) {
+      if (renderId !== this.renderId) {
+        return
+      }
+      this.content = ''
+      this.panel.webview.html = this.getHtml(document, undefined, error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  private getHtml(
+    document: PreviewDocument & { scrollY?: number },
+    rendered: RenderedMarkdown | undefined,
+    error?: string
+  ): string {
+    const webview = this.panel.webview
+    const nonce = randomBytes(16).toString('base64')
+    const mediaUri = (file: string) => webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', file))
+    const currentKind = document.url === this.website?.llmsTxtUrl
+      ? 'llms.txt'
+      : document.url === this.website?.llmsFullTxtUrl
+        ? 'llms-full.txt'
+        : undefined
+
+    const fileToggle = this.website
+      ? `<div class="file-toggle" role="group" aria-label="File">${(['llms.txt', 'llms-full.txt'] as const)
+          .map(kind => {
+            const available = kind === 'llms.txt' ? this.website?.llmsTxtUrl : this.website?.llmsFullTxtUrl
+            return `<button data-file="${kind}" aria-pressed="${kind === currentKind}"${available ? '' : ' disabled'}>${kind}</button>`
+          })
+          .join('')}</div>`
+      : ''
+
+    const sidebar = (rendered?.headings ?? [])
+      .filter(heading => heading.level <= SIDEBAR_MAX_LEVEL)
+      .map(heading => `<a href="#${escapeHtml(heading.id)}" class="level-${heading.level}">${escapeHtml(heading.title)}</a>`)
+      .join('\n')
+
+    const main = rendered
+      ? rendered.html
+      : `<div class="error"><p>Failed to load ${escapeHtml(document.url)}</p><p>${escapeHtml(error ?? '')}</p><button data-action="reload">Retry</button></div>`
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <link rel="stylesheet" href="${mediaUri('preview.css')}">
+  <title>${escapeHtml(document.title)}</title>
+</head>
+<body data-url="${escapeHtml(document.url)}" data-render="${this.renderId}" data-scroll-y="${document.scrollY ?? 0}">
+  <header class="toolbar">
+    <button data-action="back" title="Back (Alt+Left)"${this.position > 0 ? '' : ' disabled'}>&larr;</button>
+    <button data-action="forward" title="Forward (Alt+Right)"${this.position < this.history.length - 1 ? '' : ' disabled'}>&rarr;</button>
+    <span class="title" title="${escapeHtml(document.url)}">${escapeHtml(document.title)}</span>
+    ${fileToggle}
+    <div class="search">
+      <input id="search" type="search" placeholder="Search" aria-label="Search in document">
+      <span id="search-count"></span>
+      <button data-action="search-previous" title="Previous Match (Shift+Enter)">&uarr;</button>
+      <button data-action="search-next" title="Next Match (Enter)">&darr;</button>
+    </div>
+    <button data-action="open-as-text" title="Open as Text">Open as Text</button>
+  </header>
+  <div class="layout">
+    <nav class="sidebar" aria-label="Sections">${sidebar}</nav>
+    <main id="content">${main}</main>
+  </div>
+  <script nonce="${nonce}" src="${mediaUri('preview.js')}"></script>
+</body>
+</html>`
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.panel.dispose()
+    this._onDidDispose.fire()
+    this._onDidDispose.dispose()
+  }
+}
@@ -0,0 +1,70 @@
+import type { LlmsTxtDocument } from '../types'
+import { fetchTxtContent } from '../services/websiteService'
+import { parseLlmsTxt } from '../services/llmsTxtParser'
+import { LinkItem, OutlineMessageItem, SectionItem, type WebsiteItem } from '../treeItems'
+
+export type OutlineItemType = SectionItem | LinkItem | OutlineMessageItem
+
+// Parsed llms.txt files, keyed by URL, so expanding a website twice doesn't refetch it
+const outlines = new Map<string, Promise<LlmsTxtDocument>>()
+
+/**
+ * Fetches and parses a website's llms.txt, reusing earlier results
+ * @param url URL of the llms.txt file
+ */
+export function getLlmsTxtOutline(url: string): Promise<LlmsTxtDocument> {
+  let outline = outlines.get(url)
+  if (!outline) {
+    outline = fetchTxtContent(url).then(parseLlmsTxt)
+    // Don't keep failures around so the next expansion retries
+    outline.catch(() => outlines.delete(url))
+    outlines.set(url, outline)
+  }
+  return outline
+}
+
+/**
+ * Forgets all parsed llms.txt files so they are fetched again on next expansion
+ */
+export function clearOutlineCache(): void {
+  outlines.clear()
+}
+
+/**
+ * Gets the sections of a website, or the links of a section, for the tree views
+ * @param element The expanded website or section
+ */
+export async function getOutlineChildren(element: WebsiteItem | SectionItem): Promise<OutlineItemType[]> {
+  if (element instanceof SectionItem) {
+    const baseUrl = element.parent.website.llmsTxtUrl
+    return element.section.links.map(link => new LinkItem({ ...link, url: resolveLinkUrl(link.url, baseUrl) }, element))
+  }
+
+  const url = element.website.llmsTxtUrl
+  if (!url) {
+    return []
+  }
+
+  try {
+    const outline = await getLlmsTxtOutline(url)
+    if (outline.sections.length === 0) {
+      return [new OutlineMessageItem('No sections found', 'info', 'This llms.txt has no H2 sections')]
+    }
+    return outline.sections.map(section => new SectionItem(section, element))
+  } catch (error) {
+    console.error(`Error loading outline for ${element.website.name}:`, error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return [new OutlineMessageItem('Failed to load LLMS.txt', 'warning', message)]
+  }
+}
+
+/**
+ * Resolves a link of an llms.txt against the URL of the llms.txt, as links may be relative
+ */
+function resolveLinkUrl(url: string, baseUrl?: string): string {
+  try {
+    return new URL(url, baseUrl).toString()
+  } catch {
+    return url
+  }
+}
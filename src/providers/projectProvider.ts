@@ -0,0 +1,167 @@
+import * as vscode from 'vscode'
+import type { ProjectDependency, Website } from '../types'
+import { SectionItem, WebsiteItem } from '../treeItems'
+import { getOutlineChildren, type OutlineItemType } from './outline'
+import type { FavoritesProvider } from './favoritesProvider'
+import { MANIFEST_GLOB, isProjectManifest, scanWorkspaceDependencies } from '../services/dependencyManifests'
+import { type ProjectRecommendation, matchDependencies } from '../services/dependencyMatcher'
+import { getDependencyMapping } from '../utils/config'
+
+export type ProjectTreeItemType = WebsiteItem | OutlineItemType
+
+/**
+ * ID of the This Project view
+ */
+export const PROJECT_VIEW_ID = 'llmsTxtProject'
+
+/**
+ * Tree data provider for the This Project view, listing the websites that document the workspace's
+ * dependencies. Manifests are watched and scanned again when they change.
+ */
+export class ProjectProvider implements vscode.TreeDataProvider<ProjectTreeItemType>, vscode.Disposable {
+  private _onDidChangeTreeData: vscode.EventEmitter<ProjectTreeItemType | undefined | null> =
+    new vscode.EventEmitter<ProjectTreeItemType | undefined | null>()
+  readonly onDidChangeTreeData: vscode.Event<ProjectTreeItemType | undefined | null> =
+    this._onDidChangeTreeData.event
+
+  // Wait for installs and branch switches that touch many manifests to settle
+  private static readonly SCAN_DELAY_MS = 1000
+  private dependencies: ProjectDependency[] = []
+  private recommendations: ProjectRecommendation[] = []
+  private getWebsites: () => Website[]
+  private favoritesProvider: FavoritesProvider
+  private pendingScan?: Promise<void>
+  private scanAgain = false
+  private scanTimer?: NodeJS.Timeout
+  private disposables: vscode.Disposable[] = []
+
+  /**
+   * @param getWebsites Gets the websites recommendations are picked from
+   */
+  constructor(getWebsites: () => Website[], favoritesProvider: FavoritesProvider) {
+    this.getWebsites = getWebsites
+    this.favoritesProvider = favoritesProvider
+
+    const watcher = vscode.workspace.createFileSystemWatcher(MANIFEST_GLOB)
+    const onManifestChange = (uri: vscode.Uri) => {
+      if (isProjectManifest(uri)) {
+        this.scheduleScan()
+      }
+    }
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(onManifestChange),
+      watcher.onDidChange(onManifestChange),
+      watcher.onDidDelete(onManifestChange),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.scheduleScan()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('llms-txt.project.dependencyMapping')) {
+          this.match()
+        }
+      })
+    )
+  }
+
+  /**
+   * Scans the workspace's manifests for dependencies and matches them to websites
+   */
+  scan(): Promise<void> {
+    if (this.pendingScan) {
+      // Pick up manifests that changed while scanning
+      this.scanAgain = true
+      return this.pendingScan
+    }
+
+    this.pendingScan = Promise.resolve(
+      vscode.window.withProgress({ location: { viewId: PROJECT_VIEW_ID } }, async () => {
+        this.dependencies = await scanWorkspaceDependencies()
+        this.match()
+        await vscode.commands.executeCommand('setContext', 'llms-txt.projectScanned', true)
+      })
+    ).finally(() => {
+      this.pendingScan = undefined
+      if (this.scanAgain) {
+        this.scanAgain = false
+        this.scan().catch(error => console.error('Error scanning the workspace dependencies:', error))
+      }
+    })
+    return this.pendingScan
+  }
+
+  private scheduleScan(): void {
+    clearTimeout(this.scanTimer)
+    this.scanTimer = setTimeout(() => {
+      this.scan().catch(error => console.error('Error scanning the workspace dependencies:', error))
+    }, ProjectProvider.SCAN_DELAY_MS)
+  }
+
+  /**
+   * Matches the scanned dependencies to the current websites and mapping, e.g. after the registry loaded
+   */
+  match(): void {
+    this.recommendations = matchDependencies(this.dependencies, this.getWebsites(), getDependencyMapping())
+    this._onDidChangeTreeData.fire(undefined)
+  }
+
+  /**
+   * Shows the current favorite status of the recommended websites
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined)
+  }
+
+  getDependencies(): ProjectDependency[] {
+    return this.dependencies
+  }
+
+  getRecommendations(): ProjectRecommendation[] {
+    return this.recommendations
+  }
+
+  getTreeItem(element: ProjectTreeItemType): vscode.TreeItem {
+    return element
+  }
+
+  /**
+   * Looks up the file sizes of a website when its tooltip is shown, then shows them in its description
+   */
+  async resolveTreeItem(item: vscode.TreeItem, element: ProjectTreeItemType): Promise<vscode.TreeItem> {
+    if (element instanceof WebsiteItem && (await element.resolveFileSizes())) {
+      this._onDidChangeTreeData.fire(element)
+    }
+    return element
+  }
+
+  getChildren(element?: ProjectTreeItemType): vscode.ProviderResult<ProjectTreeItemType[]> {
+    if (!element) {
+      return this.recommendations.map(recommendation => this.createWebsiteItem(recommendation))
+    }
+
+    if (element instanceof WebsiteItem || element instanceof SectionItem) {
+      return getOutlineChildren(element)
+    }
+
+    return []
+  }
+
+  private createWebsiteItem(recommendation: ProjectRecommendation): WebsiteItem {
+    const item = new WebsiteItem(recommendation.website, this.favoritesProvider.isFavorite(recommendation.website))
+    const names = recommendation.dependencies.map(dependency => dependency.name)
+    const label = names.length > 2 ? `${names.slice(0, 2).join(', ')} +${names.length - 2}` : names.join(', ')
+    const details = recommendation.dependencies.map(
+      dependency => `${dependency.name} (${dependency.manifests.join(', ')})`
+    )
+    item.setHint(
+      label,
+      `Recommended for ${names.length === 1 ? 'this dependency' : 'these dependencies'}:\n${details.join('\n')}` +
+        (recommendation.mapped ? '\n\nMapped in llms-txt.project.dependencyMapping' : '')
+    )
+    return item
+  }
+
+  dispose(): void {
+    clearTimeout(this.scanTimer)
+    this.disposables.forEach(disposable => disposable.dispose())
+    this._onDidChangeTreeData.dispose()
+  }
+}
@@ -1,22 +1,93 @@
 import * as vscode from 'vscode'
 import type { Website } from '../types'
-import { fetchWebsites } from '../services/websiteService'
-import { CategoryItem, NoResultsItem, WebsiteItem } from '../treeItems'
-import type { FavoritesProvider } from './favoritesProvider'
+import { fetchWebsites, getDomainKey } from '../services/websiteService'
+import type { CustomWebsites } from '../services/customWebsites'
+import { CategoryItem, LinkItem, LoadErrorItem, LoadingItem, NoResultsItem, SectionItem, WebsiteItem } from '../treeItems'
+import { type FavoritesProvider, WEBSITES_MIME_TYPE } from './favoritesProvider'
 import { SearchService } from '../services/searchService'
+import { formatTimeAgo } from '../utils'
+import { getRegistrySources } from '../utils/config'
+import { getOutlineChildren, type OutlineItemType } from './outline'
+
+export type TreeItemType =
+  | WebsiteItem
+  | CategoryItem
+  | NoResultsItem
+  | LoadingItem
+  | LoadErrorItem
+  | OutlineItemType
+
+// Category definitions with icons, descriptions, and slug mappings
+const CATEGORY_CONFIG = new Map([
+  ['ai-ml', {
+    displayName: 'AI & Machine Learning',
+    icon: 'brain',
+    description: 'AI models, ML tools, and LLM platforms'
+  }],
+  ['developer-tools', {
+    displayName: 'Developer Tools',
+    icon: 'code',
+    description: 'IDEs, CLIs, debugging and development tools'
+  }],
+  ['data-analytics', {
+    displayName: 'Data & Analytics',
+    icon: 'database',
+    description: 'Databases, analytics platforms, and data processing tools'
+  }],
+  ['infrastructure-cloud', {
+    displayName: 'Infrastructure & Cloud',
+    icon: 'server',
+    description: 'Hosting, deployment, and cloud services'
+  }],
+  ['security-identity', {
+    displayName: 'Security & Identity',
+    icon: 'lock',
+    description: 'Security tools, authentication, and compliance solutions'
+  }],
+  ['integration-automation', {
+    displayName: 'Integration & Automation',
+    icon: 'sync',
+    description: 'API platforms, workflow automation, and integration tools'
+  }],
+  ['uncategorized', {
+    displayName: 'Uncategorized',
+    icon: 'folder',
+    description: 'Other websites'
+  }]
+])
 
-export type TreeItemType = WebsiteItem | CategoryItem | NoResultsItem
+/**
+ * Websites fetched from the registry sources
+ */
+export interface RegistryLoad {
+  websites: Website[]
+  /** Labels of the sources that failed to load, whose websites are missing from the list */
+  failedSources: string[]
+}
 
 /**
- * Tree data provider for displaying websites in the VS Code sidebar
+ * Tree data provider for displaying websites in the VS Code sidebar.
+ * Websites can be dragged into the Favorites view.
  */
-export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
+export class WebsitesProvider
+  implements vscode.TreeDataProvider<TreeItemType>, vscode.TreeDragAndDropController<TreeItemType>
+{
   private _onDidChangeTreeData: vscode.EventEmitter<TreeItemType | undefined | null> =
     new vscode.EventEmitter<TreeItemType | undefined | null>()
   readonly onDidChangeTreeData: vscode.Event<TreeItemType | undefined | null> =
     this._onDidChangeTreeData.event
 
+  private _onDidLoadWebsites = new vscode.EventEmitter<RegistryLoad>()
+  /** Fires when the registry has been fetched, not when falling back to the cached snapshot */
+  readonly onDidLoadWebsites: vscode.Event<RegistryLoad> = this._onDidLoadWebsites.event
+
+  readonly dragMimeTypes = [WEBSITES_MIME_TYPE]
+  readonly dropMimeTypes: string[] = []
+
+  // The registry's websites merged with the custom ones
   private websites: Website[] = []
+  private registryWebsites: Website[] = []
+  private customWebsites?: CustomWebsites
   private context: vscode.ExtensionContext
   private categories: Map<string, Website[]> = new Map()
   private rootItems: TreeItemType[] = []
@@ -25,39 +96,42 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
   private currentSearchQuery = ''
   private currentCategory?: string
   private static readonly CACHE_KEY = 'websitesCache'
-  private static readonly CACHE_DURATION = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
+  private static readonly DEFAULT_CACHE_TTL_HOURS = 24
   private static readonly CATEGORY_STATES_KEY = 'categoryStates'
   private categoryStates: Map<string, boolean> = new Map() // true = expanded, false = collapsed
   private favoritesProvider?: FavoritesProvider
   private searchService: SearchService
+  private lastSyncedAt?: number
+  private isOffline = false
+  private pendingRevalidation?: Promise<void>
+  private loadError?: string
+  // Whether the registry was loaded once, from the network or the cache, even if it lists no websites
+  private loaded = false
 
   constructor(context: vscode.ExtensionContext) {
     this.context = context
-    this.searchService = new SearchService([])
 
     // Clear any existing category states to ensure all start collapsed
     this.categoryStates = new Map()
     this.context.globalState.update(WebsitesProvider.CATEGORY_STATES_KEY, {})
     console.log('Category states reset to collapsed')
 
-    // Load cached websites if available and not expired
+    // Load any cached snapshot, however old, so the tree can render before the network answers
     const cache = this.context.globalState.get<{
       timestamp: number
       websites: Website[]
     }>(WebsitesProvider.CACHE_KEY)
 
     if (cache) {
-      const now = Date.now()
-      const isExpired = now - cache.timestamp > WebsitesProvider.CACHE_DURATION
-
-      if (!isExpired) {
-        console.log('Using cached websites from:', new Date(cache.timestamp))
-        this.websites = cache.websites
-        this.organizeWebsitesByCategory()
-      } else {
-        console.log('Cache expired, will fetch fresh data')
-      }
+      console.log('Using cached websites from:', new Date(cache.timestamp))
+      this.registryWebsites = cache.websites
+      this.websites = cache.websites
+      this.lastSyncedAt = cache.timestamp
+      this.loaded = true
+      this.organizeWebsitesByCategory()
     }
+
+    this.searchService = new SearchService(this.websites)
   }
 
   /**
@@ -84,6 +158,43 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
 
     // Initial expansion based on saved states
     this.restoreCategoryStates()
+    this.updateSyncStatus()
+  }
+
+  /**
+   * Gets the configured registry cache lifetime in milliseconds
+   */
+  private getCacheTtl(): number {
+    const hours = vscode.workspace
+      .getConfiguration('llms-txt')
+      .get<number>('registry.cacheTtlHours', WebsitesProvider.DEFAULT_CACHE_TTL_HOURS)
+    return Math.max(0, hours) * 60 * 60 * 1000
+  }
+
+  /**
+   * Whether the cached snapshot is older than the configured TTL
+   */
+  private isCacheStale(): boolean {
+    return this.lastSyncedAt === undefined || Date.now() - this.lastSyncedAt > this.getCacheTtl()
+  }
+
+  /**
+   * Shows when the registry was last synced, and an offline notice when the last revalidation failed
+   */
+  private updateSyncStatus(): void {
+    if (!this.treeView) return
+
+    if (this.lastSyncedAt === undefined) {
+      this.treeView.description = undefined
+      this.treeView.message = undefined
+      return
+    }
+
+    const syncedAgo = formatTimeAgo(this.lastSyncedAt)
+    this.treeView.description = this.isOffline ? `Offline · synced ${syncedAgo}` : `Synced ${syncedAgo}`
+    this.treeView.message = this.isOffline
+      ? `Offline: showing websites last synced ${syncedAgo}. Use Refresh to try again.`
+      : undefined
   }
 
   /**
@@ -120,44 +231,88 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
     this.refresh()
   }
 
-  async refresh(): Promise<void> {
+  /**
+   * Renders the cached websites immediately and revalidates them against the registry
+   * when the cache is stale. Pass `force` to always revalidate and wait for the result.
+   */
+  async refresh(force = false): Promise<void> {
+    if (this.loaded && !force) {
+      this.render()
+      if (this.isCacheStale()) {
+        // Stale-while-revalidate: keep showing the snapshot while fetching in the background
+        this.revalidate().catch(error => {
+          console.log('Background revalidation failed:', error)
+        })
+      }
+      return
+    }
+
+    // A forced refresh may join a background revalidation, which does not warn when offline
+    await this.revalidate()
+    if (force && this.isOffline && this.lastSyncedAt !== undefined) {
+      vscode.window.showWarningMessage(
+        `Could not reach the websites registry. Showing websites last synced ${formatTimeAgo(this.lastSyncedAt)}.`
+      )
+    }
+  }
+
+  /**
+   * Fetches the registry, falling back to the last good snapshot when the network is unavailable
+   */
+  private revalidate(): Promise<void> {
+    if (!this.pendingRevalidation) {
+      this.pendingRevalidation = this.fetchAndCache().finally(() => {
+        this.pendingRevalidation = undefined
+      })
+    }
+    return this.pendingRevalidation
+  }
+
+  private async fetchAndCache(): Promise<void> {
+    // Show the loading state again when recovering from a failed first load
+    if (this.loadError) {
+      this.loadError = undefined
+      this._onDidChangeTreeData.fire(undefined)
+    }
+
     try {
       console.log('Refreshing websites...')
-      const allWebsites = await fetchWebsites()
+      const failedSources: string[] = []
+      const allWebsites = await fetchWebsites(getRegistrySources(), (source, error) => {
+        failedSources.push(source.label)
+        const reason = error instanceof Error ? error.message : 'Unknown error'
+        vscode.window.showWarningMessage(`Failed to load websites from ${source.label}: ${reason}`)
+      })
       console.log('Fetched websites:', allWebsites.length)
 
-      this.websites = allWebsites
-      await this.searchService.updateDataset(allWebsites)
+      this.registryWebsites = allWebsites
+      this.loaded = true
+      this.lastSyncedAt = Date.now()
+      this.isOffline = false
+      await this.mergeCustomWebsites()
 
       // Update cache with timestamp
       await this.context.globalState.update(WebsitesProvider.CACHE_KEY, {
-        timestamp: Date.now(),
+        timestamp: this.lastSyncedAt,
         websites: allWebsites
       })
-      console.log('Websites cached at:', new Date())
+      console.log('Websites cached at:', new Date(this.lastSyncedAt))
 
-      // Organize websites by category
-      this.organizeWebsitesByCategory()
-
-      // Notify VS Code that the tree data has changed
-      this._onDidChangeTreeData.fire(undefined)
-      console.log('Tree data updated')
-
-      // Wait a bit for the tree view to update before expanding categories
-      if (this.currentSearchQuery) {
-        // Use setTimeout to ensure tree view is updated
-        setTimeout(async () => {
-          try {
-            await this.expandAllCategories()
-            console.log('Categories expanded for search results')
-          } catch (error) {
-            console.log('Error expanding categories:', error)
-            // Don't throw here as it's not critical
-          }
-        }, 100)
-      }
+      this.render()
+      this._onDidLoadWebsites.fire({ websites: this.websites, failedSources })
     } catch (error) {
       console.error('Error refreshing websites:', error)
+
+      // Fall back to the last good snapshot when we have one
+      if (this.loaded) {
+        this.isOffline = true
+        this.render()
+        return
+      }
+
+      this.loadError = error instanceof Error ? error.message : 'Unknown error'
+      this._onDidChangeTreeData.fire(undefined)
+
       if (error instanceof Error) {
         vscode.window.showErrorMessage(`Failed to refresh websites: ${error.message}`)
       } else {
@@ -167,6 +322,33 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
     }
   }
 
+  /**
+   * Rebuilds the tree from the current websites and notifies VS Code
+   */
+  private render(): void {
+    // Organize websites by category
+    this.organizeWebsitesByCategory()
+
+    // Notify VS Code that the tree data has changed
+    this._onDidChangeTreeData.fire(undefined)
+    this.updateSyncStatus()
+    console.log('Tree data updated')
+
+    // Wait a bit for the tree view to update before expanding categories
+    if (this.currentSearchQuery) {
+      // Use setTimeout to ensure tree view is updated
+      setTimeout(async () => {
+        try {
+          await this.expandAllCategories()
+          console.log('Categories expanded for search results')
+        } catch (error) {
+          console.log('Error expanding categories:', error)
+          // Don't throw here as it's not critical
+        }
+      }, 100)
+    }
+  }
+
   /**
    * Expands all categories in the tree view
    */
@@ -199,45 +381,6 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
       ? this.searchService.search(this.currentSearchQuery, this.currentCategory)
       : this.websites
 
-    // Category definitions with icons, descriptions, and slug mappings
-    const categoryConfig = new Map([
-      ['ai-ml', {
-        displayName: 'AI & Machine Learning',
-        icon: 'brain',
-        description: 'AI models, ML tools, and LLM platforms'
-      }],
-      ['developer-tools', {
-        displayName: 'Developer Tools',
-        icon: 'code',
-        description: 'IDEs, CLIs, debugging and development tools'
-      }],
-      ['data-analytics', {
-        displayName: 'Data & Analytics',
-        icon: 'database',
-        description: 'Databases, analytics platforms, and data processing tools'
-      }],
-      ['infrastructure-cloud', {
-        displayName: 'Infrastructure & Cloud',
-        icon: 'server',
-        description: 'Hosting, deployment, and cloud services'
-      }],
-      ['security-identity', {
-        displayName: 'Security & Identity',
-        icon: 'lock',
-        description: 'Security tools, authentication, and compliance solutions'
-      }],
-      ['integration-automation', {
-        displayName: 'Integration & Automation',
-        icon: 'sync',
-        description: 'API platforms, workflow automation, and integration tools'
-      }],
-      ['uncategorized', {
-        displayName: 'Uncategorized',
-        icon: 'folder',
-        description: 'Other websites'
-      }]
-    ])
-
     // If no websites are found, create a special "no results" category
     if (websitesToShow.length === 0) {
       console.log('No websites found, showing NoResultsItem')
@@ -261,7 +404,7 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
     // Update root items with saved states and custom formatting
     this.rootItems = Array.from(this.categories.entries()).map(([categorySlug, websites]) => {
       const isExpanded = this.categoryStates.get(categorySlug) ?? false // Default to collapsed
-      const config = categoryConfig.get(categorySlug) || {
+      const config = CATEGORY_CONFIG.get(categorySlug) || {
         displayName: categorySlug,
         icon: 'folder',
         description: `${categorySlug} websites`
@@ -294,6 +437,16 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
     console.log('Parent-child relationships mapped')
   }
 
+  /**
+   * Offers dragged websites to the Favorites view
+   */
+  handleDrag(source: readonly TreeItemType[], dataTransfer: vscode.DataTransfer): void {
+    const websites = source.filter((item): item is WebsiteItem => item instanceof WebsiteItem).map(item => item.website)
+    if (websites.length > 0) {
+      dataTransfer.set(WEBSITES_MIME_TYPE, new vscode.DataTransferItem(websites))
+    }
+  }
+
   /**
    * Gets the tree item for a given element
    */
@@ -301,11 +454,26 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
     return element
   }
 
+  /**
+   * Looks up the file sizes of a website when its tooltip is shown, then shows them in its description
+   */
+  async resolveTreeItem(item: vscode.TreeItem, element: TreeItemType): Promise<vscode.TreeItem> {
+    if (element instanceof WebsiteItem && (await element.resolveFileSizes())) {
+      this._onDidChangeTreeData.fire(element)
+    }
+    return element
+  }
+
   /**
    * Gets the children of a given element
    */
   getChildren(element?: TreeItemType): vscode.ProviderResult<TreeItemType[]> {
     if (!element) {
+      // Nothing to show yet: either the first load is pending or it failed
+      if (!this.loaded) {
+        return Promise.resolve([this.loadError ? new LoadErrorItem(this.loadError) : new LoadingItem()])
+      }
+
       // Return root items (categories)
       return Promise.resolve(this.rootItems)
     }
@@ -317,6 +485,11 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
       ))
     }
 
+    if (element instanceof WebsiteItem || element instanceof SectionItem) {
+      // Return the sections of the website's llms.txt, or the links of a section
+      return getOutlineChildren(element)
+    }
+
     return Promise.resolve([])
   }
 
@@ -324,13 +497,17 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
    * Gets the parent of a given element
    * Required for the reveal method to work
    */
-  getParent(element: TreeItemType): vscode.ProviderResult<CategoryItem> {
+  getParent(element: TreeItemType): vscode.ProviderResult<TreeItemType> {
     if (element instanceof WebsiteItem) {
       // Return the parent category for this website
       return this.childToParentMap.get(element.website.domain)
     }
 
-    // Categories and NoResultsItem are at the root level, so they have no parent
+    if (element instanceof SectionItem || element instanceof LinkItem) {
+      return element.parent
+    }
+
+    // Categories and status items are at the root level, so they have no parent
     return null
   }
 
@@ -355,6 +532,13 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
     return this.searchService.search(query, this.currentCategory)
   }
 
+  /**
+   * Searches all websites without applying the view's category filter or recording search history
+   */
+  findWebsites(query: string, category?: string): Website[] {
+    return this.searchService.search(query, category, false)
+  }
+
   private getItemLabel(item: WebsiteItem | CategoryItem): string {
     if (typeof item.label === 'string') {
       return item.label
@@ -369,6 +553,13 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
     return this.websites
   }
 
+  /**
+   * Gets the websites currently shown, which the search and category filter narrow down
+   */
+  public getVisibleWebsites(): Website[] {
+    return Array.from(this.categories.values()).flat()
+  }
+
   /**
    * Gets a tree item for a specific website
    */
@@ -389,6 +580,49 @@ export class WebsitesProvider implements vscode.TreeDataProvider<TreeItemType> {
     this.favoritesProvider = provider
   }
 
+  /**
+   * Shows the websites the user added alongside the registry's, and keeps them in sync
+   */
+  setCustomWebsites(customWebsites: CustomWebsites): vscode.Disposable {
+    this.customWebsites = customWebsites
+    this.mergeCustomWebsites()
+      .then(() => this.render())
+      .catch(error => console.error('Error adding custom websites:', error))
+    return customWebsites.onDidChange(async () => {
+      await this.mergeCustomWebsites()
+      this.render()
+    })
+  }
+
+  /**
+   * Rebuilds the websites from the registry and the custom websites, which take precedence
+   */
+  private async mergeCustomWebsites(): Promise<void> {
+    const custom = this.customWebsites?.getAll() ?? []
+    const customKeys = new Set(custom.map(website => getDomainKey(website.domain)))
+    this.websites = [
+      ...custom,
+      ...this.registryWebsites.filter(website => !customKeys.has(getDomainKey(website.domain)))
+    ]
+    await this.searchService.updateDataset(this.websites)
+  }
+
+  /**
+   * Whether the registry lists a website, even when a custom website replaces it
+   */
+  isListedInRegistry(website: Website): boolean {
+    const key = getDomainKey(website.domain)
+    return this.registryWebsites.some(listed => getDomainKey(listed.domain) === key)
+  }
+
+  /**
+   * Gets the categories websites can be filed under, with their display names
+   */
+  getCategoryChoices(): { slug: string; label: string }[] {
+    const slugs = new Set([...CATEGORY_CONFIG.keys(), ...this.websites.map(website => website.category || 'uncategorized')])
+    return Array.from(slugs).map(slug => ({ slug, label: CATEGORY_CONFIG.get(slug)?.displayName ?? slug }))
+  }
+
   /**
    * Get search suggestions
    */
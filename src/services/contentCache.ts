@@ -0,0 +1,205 @@
+import axios from 'axios'
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import * as path from 'node:path'
+
+/**
+ * Metadata stored for each cached file
+ */
+export interface ContentCacheEntry {
+  url: string
+  /** Name of the file holding the content, relative to the cache directory */
+  file: string
+  etag?: string
+  lastModified?: string
+  /** When the content was last downloaded or revalidated */
+  fetchedAt: number
+  /** Size of the content in bytes */
+  size: number
+}
+
+const INDEX_FILE = 'index.json'
+
+/**
+ * On-disk cache for llms.txt and llms-full.txt content. Cached files are revalidated
+ * with ETag/Last-Modified conditional requests and served as-is when offline.
+ */
+export class ContentCache {
+  private readonly directory: string
+  private index?: Promise<Record<string, ContentCacheEntry>>
+  private writeQueue: Promise<void> = Promise.resolve()
+  private listeners = new Set<(url: string) => void>()
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  /**
+   * Registers a listener called whenever a cached file is stored or purged
+   * @returns A function that removes the listener
+   */
+  onDidChange(listener: (url: string) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Fetches a file, sending a conditional request when a cached copy exists
+   * @param url URL of the file to fetch
+   * @param fallbackToCache Whether to serve the cached content when the request fails, rather than throwing
+   * @returns The fresh content, or the cached content if unchanged or the request failed
+   */
+  async fetch(url: string, fallbackToCache = true): Promise<string> {
+    const index = await this.loadIndex()
+    const cached = index[url]
+    const cachedContent = cached ? await this.readFile(cached) : undefined
+    const headers: Record<string, string> = { Accept: 'text/plain' }
+
+    if (cached && cachedContent !== undefined) {
+      if (cached.etag) headers['If-None-Match'] = cached.etag
+      if (cached.lastModified) headers['If-Modified-Since'] = cached.lastModified
+    }
+
+    try {
+      const response = await axios.get<string>(url, {
+        headers,
+        responseType: 'text',
+        // Keep the raw text, axios would otherwise try to parse JSON
+        transformResponse: [data => data],
+        validateStatus: status => (status >= 200 && status < 300) || status === 304
+      })
+
+      if (response.status === 304 && cached && cachedContent !== undefined) {
+        await this.updateIndex(entries => {
+          entries[url] = { ...cached, fetchedAt: Date.now() }
+        })
+        return cachedContent
+      }
+
+      const content = response.data
+      await this.store(url, content, {
+        etag: headerValue(response.headers.etag),
+        lastModified: headerValue(response.headers['last-modified'])
+      })
+      return content
+    } catch (error) {
+      if (fallbackToCache && cachedContent !== undefined) {
+        console.warn(`Serving cached content for ${url}:`, error instanceof Error ? error.message : error)
+        return cachedContent
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Reads a cached file without touching the network
+   * @returns The cached content, or undefined when the URL is not cached
+   */
+  async read(url: string): Promise<string | undefined> {
+    const entry = (await this.loadIndex())[url]
+    return entry ? this.readFile(entry) : undefined
+  }
+
+  /**
+   * Gets the metadata of a cached file without touching the network
+   */
+  async getEntry(url: string): Promise<ContentCacheEntry | undefined> {
+    return (await this.loadIndex())[url]
+  }
+
+  /**
+   * Lists all cached files
+   */
+  async list(): Promise<ContentCacheEntry[]> {
+    return Object.values(await this.loadIndex())
+  }
+
+  /**
+   * Removes cached files
+   * @param urls URLs to remove, or every cached file when omitted
+   */
+  async purge(urls?: string[]): Promise<void> {
+    const removed: ContentCacheEntry[] = []
+    await this.updateIndex(entries => {
+      for (const url of urls ?? Object.keys(entries)) {
+        if (entries[url]) {
+          removed.push(entries[url])
+          delete entries[url]
+        }
+      }
+    })
+
+    await Promise.all(
+      removed.map(entry => fs.rm(path.join(this.directory, entry.file), { force: true }))
+    )
+    removed.forEach(entry => this.notify(entry.url))
+  }
+
+  private async store(
+    url: string,
+    content: string,
+    validators: Pick<ContentCacheEntry, 'etag' | 'lastModified'>
+  ): Promise<void> {
+    const file = `${createHash('sha1').update(url).digest('hex')}.txt`
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(path.join(this.directory, file), content, 'utf8')
+    await this.updateIndex(entries => {
+      entries[url] = {
+        url,
+        file,
+        ...validators,
+        fetchedAt: Date.now(),
+        size: Buffer.byteLength(content, 'utf8')
+      }
+    })
+    this.notify(url)
+  }
+
+  private notify(url: string): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(url)
+      } catch (error) {
+        console.error('Error in content cache listener:', error)
+      }
+    }
+  }
+
+  private async readFile(entry: ContentCacheEntry): Promise<string | undefined> {
+    try {
+      return await fs.readFile(path.join(this.directory, entry.file), 'utf8')
+    } catch {
+      return undefined
+    }
+  }
+
+  private loadIndex(): Promise<Record<string, ContentCacheEntry>> {
+    if (!this.index) {
+      this.index = fs
+        .readFile(path.join(this.directory, INDEX_FILE), 'utf8')
+        .then(data => JSON.parse(data) as Record<string, ContentCacheEntry>)
+        .catch(() => ({}))
+    }
+    return this.index
+  }
+
+  /**
+   * Applies a change to the index and persists it, one write at a time
+   */
+  private async updateIndex(update: (entries: Record<string, ContentCacheEntry>) => void): Promise<void> {
+    const entries = await this.loadIndex()
+    update(entries)
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(this.directory, { recursive: true })
+        await fs.writeFile(path.join(this.directory, INDEX_FILE), JSON.stringify(entries), 'utf8')
+      })
+    await this.writeQueue
+  }
+}
+
+function headerValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
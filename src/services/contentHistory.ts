@@ -0,0 +1,178 @@
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import * as path from 'node:path'
+
+/**
+ * A version of a file, recorded when it was fetched with different content than before
+ */
+export interface ContentSnapshot {
+  id: string
+  url: string
+  /** When this version was first fetched */
+  fetchedAt: number
+  /** SHA-256 of the content */
+  sha256: string
+  /** Size of the content in bytes */
+  size: number
+}
+
+/**
+ * Snapshots of a file and the one that was current when it was last viewed
+ */
+interface FileHistory {
+  url: string
+  /** Oldest first */
+  snapshots: ContentSnapshot[]
+  lastViewed?: string
+}
+
+/**
+ * A file that changed between two views
+ */
+export interface ViewedChange {
+  previous: ContentSnapshot
+  current: ContentSnapshot
+}
+
+const HISTORY_FILE = 'history.json'
+
+/**
+ * On-disk history of llms.txt content. A snapshot is kept for each distinct version of
+ * a file, up to a maximum per file, along with which version was last viewed.
+ */
+export class ContentHistory {
+  private readonly directory: string
+  private readonly getMaxSnapshots: () => number
+  private queue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * @param directory Directory to store the history in
+   * @param getMaxSnapshots Number of snapshots to keep per file; nothing is recorded when 0
+   */
+  constructor(directory: string, getMaxSnapshots: () => number) {
+    this.directory = directory
+    this.getMaxSnapshots = getMaxSnapshots
+  }
+
+  /**
+   * Records a version of a file, unless it is the same as the latest snapshot
+   * @returns The new snapshot, or undefined when the content did not change
+   */
+  record(url: string, content: string): Promise<ContentSnapshot | undefined> {
+    return this.enqueue(async () => {
+      const maxSnapshots = this.getMaxSnapshots()
+      if (maxSnapshots <= 0) {
+        return undefined
+      }
+
+      const history = await this.load(url)
+      const sha256 = createHash('sha256').update(content).digest('hex')
+      if (history.snapshots.at(-1)?.sha256 === sha256) {
+        return undefined
+      }
+
+      const fetchedAt = Date.now()
+      const snapshot: ContentSnapshot = {
+        id: `${fetchedAt}-${sha256.slice(0, 8)}`,
+        url,
+        fetchedAt,
+        sha256,
+        size: Buffer.byteLength(content, 'utf8')
+      }
+      const directory = this.getFileDirectory(url)
+      await fs.mkdir(directory, { recursive: true })
+      await fs.writeFile(path.join(directory, `${snapshot.id}.txt`), content, 'utf8')
+      history.snapshots.push(snapshot)
+
+      // Drop the oldest snapshots, keeping the one last viewed so its changes can still be shown
+      const excess = history.snapshots.length - maxSnapshots
+      const removed = history.snapshots
+        .filter(candidate => candidate.id !== history.lastViewed)
+        .slice(0, Math.max(0, excess))
+      history.snapshots = history.snapshots.filter(candidate => !removed.includes(candidate))
+      await Promise.all(removed.map(old => fs.rm(path.join(directory, `${old.id}.txt`), { force: true })))
+
+      await this.save(history)
+      return snapshot
+    })
+  }
+
+  /**
+   * Marks the latest snapshot of a file as viewed
+   * @returns The previously viewed and current snapshots, when the file changed since it was last viewed
+   */
+  markViewed(url: string): Promise<ViewedChange | undefined> {
+    return this.enqueue(async () => {
+      const history = await this.load(url)
+      const current = history.snapshots.at(-1)
+      if (!current || history.lastViewed === current.id) {
+        return undefined
+      }
+
+      const previous = history.snapshots.find(snapshot => snapshot.id === history.lastViewed)
+      history.lastViewed = current.id
+      await this.save(history)
+      return previous ? { previous, current } : undefined
+    })
+  }
+
+  /**
+   * Lists the snapshots of a file, newest first
+   */
+  async list(url: string): Promise<ContentSnapshot[]> {
+    return (await this.load(url)).snapshots.slice().reverse()
+  }
+
+  /**
+   * Gets the snapshot that was current when the file was last viewed
+   */
+  async getLastViewed(url: string): Promise<ContentSnapshot | undefined> {
+    const history = await this.load(url)
+    return history.snapshots.find(snapshot => snapshot.id === history.lastViewed)
+  }
+
+  /**
+   * Reads the content of a snapshot
+   * @returns The content, or undefined when the snapshot no longer exists
+   */
+  async read(url: string, id: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(path.join(this.getFileDirectory(url), `${id}.txt`), 'utf8')
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Removes the history of a file
+   */
+  clear(url: string): Promise<void> {
+    return this.enqueue(() => fs.rm(this.getFileDirectory(url), { recursive: true, force: true }))
+  }
+
+  private getFileDirectory(url: string): string {
+    return path.join(this.directory, createHash('sha1').update(url).digest('hex'))
+  }
+
+  private async load(url: string): Promise<FileHistory> {
+    try {
+      const data = await fs.readFile(path.join(this.getFileDirectory(url), HISTORY_FILE), 'utf8')
+      return JSON.parse(data) as FileHistory
+    } catch {
+      return { url, snapshots: [] }
+    }
+  }
+
+  private async save(history: FileHistory): Promise<void> {
+    await fs.writeFile(path.join(this.getFileDirectory(history.url), HISTORY_FILE), JSON.stringify(history), 'utf8')
+  }
+
+  /**
+   * Runs changes to the history one at a time
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.catch(() => undefined).then(task)
+    this.queue = result
+    return result
+  }
+}
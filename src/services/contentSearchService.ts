@@ -0,0 +1,132 @@
+import type { ContentCache } from './contentCache'
+
+/**
+ * A line of cached llms.txt content matching a search
+ */
+export interface ContentSearchMatch {
+  url: string
+  /** Zero-based line number of the match */
+  line: number
+  /** Nearest heading above the match */
+  section?: string
+  /** The whole matching line, to find it again if the file changed since it was indexed */
+  text: string
+  snippet: string
+}
+
+interface IndexedDocument {
+  url: string
+  lines: string[]
+  lowerLines: string[]
+  /** Heading in effect for each line */
+  sections: (string | undefined)[]
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/
+const MAX_SNIPPET_LENGTH = 160
+
+/**
+ * Full-text search over the llms.txt and llms-full.txt files in the content cache.
+ * The index is built lazily and rebuilt whenever the cache changes.
+ */
+export class ContentSearchService {
+  private contentCache: ContentCache
+  private index?: Promise<IndexedDocument[]>
+
+  constructor(contentCache: ContentCache) {
+    this.contentCache = contentCache
+    this.contentCache.onDidChange(() => this.invalidate())
+  }
+
+  /**
+   * Drops the index so it is rebuilt on the next search
+   */
+  invalidate(): void {
+    this.index = undefined
+  }
+
+  /**
+   * Gets the number of files in the index
+   */
+  async getIndexedCount(): Promise<number> {
+    return (await this.getIndex()).length
+  }
+
+  /**
+   * Finds lines containing every term of the query, case-insensitively
+   * @param query Search query
+   * @param limit Maximum number of matches to return
+   */
+  async search(query: string, limit = 200): Promise<ContentSearchMatch[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0)
+    if (terms.length === 0) {
+      return []
+    }
+
+    const matches: ContentSearchMatch[] = []
+    for (const document of await this.getIndex()) {
+      for (let line = 0; line < document.lowerLines.length; line++) {
+        if (terms.every(term => document.lowerLines[line].includes(term))) {
+          matches.push({
+            url: document.url,
+            line,
+            section: document.sections[line],
+            text: document.lines[line],
+            snippet: createSnippet(document.lines[line], document.lowerLines[line].indexOf(terms[0]))
+          })
+          if (matches.length >= limit) {
+            return matches
+          }
+        }
+      }
+    }
+    return matches
+  }
+
+  private getIndex(): Promise<IndexedDocument[]> {
+    if (!this.index) {
+      this.index = this.buildIndex()
+    }
+    return this.index
+  }
+
+  private async buildIndex(): Promise<IndexedDocument[]> {
+    const documents: IndexedDocument[] = []
+    for (const entry of await this.contentCache.list()) {
+      const content = await this.contentCache.read(entry.url)
+      if (content === undefined) {
+        continue
+      }
+
+      const lines = content.split(/\r?\n/)
+      const sections: (string | undefined)[] = []
+      let section: string | undefined
+      for (const line of lines) {
+        const heading = HEADING_PATTERN.exec(line)
+        if (heading) {
+          section = heading[1]
+        }
+        sections.push(section)
+      }
+
+      documents.push({ url: entry.url, lines, lowerLines: lines.map(line => line.toLowerCase()), sections })
+    }
+    console.log('Content search index built:', documents.length, 'files')
+    return documents
+  }
+}
+
+/**
+ * Trims a line around the first match so it fits in a QuickPick label
+ */
+function createSnippet(line: string, matchIndex: number): string {
+  const text = line.trim()
+  if (text.length <= MAX_SNIPPET_LENGTH) {
+    return text
+  }
+
+  const offset = Math.max(0, matchIndex - (line.length - line.trimStart().length))
+  const start = Math.max(0, Math.min(offset - 40, text.length - MAX_SNIPPET_LENGTH))
+  const snippet = text.slice(start, start + MAX_SNIPPET_LENGTH)
+  return `${start > 0 ? '…' : ''}${snippet}${start + MAX_SNIPPET_LENGTH < text.length ? '…' : ''}`
+}
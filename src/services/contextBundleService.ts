@@ -0,0 +1,200 @@
+import type { LlmsFileKind, Website } from '../types'
+import { estimateTokens } from '../utils/tokens'
+
+/**
+ * A website's file to include in a context bundle
+ */
+export interface BundleSource {
+  website: Website
+  kind: LlmsFileKind
+  url: string
+  content: string
+  /** Titles of the sections to include; all sections when omitted */
+  sections?: string[]
+}
+
+/**
+ * A block of a source's content: the part before the first section, or a section
+ */
+export interface BundleChunk {
+  title: string
+  text: string
+  /** Whether this is the content before the first section, which is never trimmed */
+  preamble: boolean
+  optional: boolean
+}
+
+/**
+ * A section left out of a bundle to fit its token budget
+ */
+export interface TrimmedSection {
+  website: Website
+  kind: LlmsFileKind
+  title: string
+}
+
+/**
+ * A combined markdown document built from several sources
+ */
+export interface ContextBundle {
+  markdown: string
+  tokens: number
+  budget: number
+  trimmed: TrimmedSection[]
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+
+/**
+ * Splits content into chunks at its top-level sections, the H1 and H2 headings after the title.
+ * Together the chunks hold all of the content.
+ * @param content llms.txt or llms-full.txt content
+ */
+export function splitBundleChunks(content: string): BundleChunk[] {
+  const lines = content.split(/\r?\n/)
+  const chunks: BundleChunk[] = []
+  let current: BundleChunk & { lines: string[] } = { title: '', text: '', preamble: true, optional: false, lines: [] }
+  let inFence = false
+
+  const flush = () => {
+    const text = current.lines.join('\n').trim()
+    if (text || !current.preamble) {
+      chunks.push({ title: current.title, text, preamble: current.preamble, optional: current.optional })
+    }
+  }
+
+  for (const line of lines) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence
+    }
+    const match = !inFence && HEADING_PATTERN.exec(line)
+    // An H1 opening the file is its title and stays with the content before the first section
+    const isTitle = match && match[1].length === 1 && current.preamble && !current.lines.some(previous => previous.trim())
+    if (match && match[1].length <= 2 && !isTitle) {
+      flush()
+      const title = match[2].trim()
+      current = { title, text: '', preamble: false, optional: title.toLowerCase() === 'optional', lines: [] }
+    }
+    current.lines.push(line)
+  }
+  flush()
+
+  return chunks
+}
+
+/**
+ * Combines sources into one markdown document with a table of contents and a header per source.
+ * When the document is over budget, sections are left out starting with the lowest priority:
+ * "Optional" sections first, then the last sections of each source, working backwards.
+ * The content before each source's first section is always kept.
+ * @param sources Sources in the order they should appear
+ * @param budget Maximum number of tokens
+ */
+export function buildContextBundle(sources: BundleSource[], budget: number): ContextBundle {
+  const entries = sources.map(source => {
+    const selected = source.sections ? new Set(source.sections) : undefined
+    const chunks = splitBundleChunks(source.content)
+      .filter(chunk => chunk.preamble || !selected || selected.has(chunk.title))
+      .map(chunk => ({ ...chunk, tokens: estimateTokens(demoteHeadings(chunk.text)), kept: true }))
+    return { source, chunks }
+  })
+
+  // Trim the lowest priority sections until the estimate fits
+  const candidates = entries
+    .flatMap((entry, sourceIndex) => {
+      const sections = entry.chunks.filter(chunk => !chunk.preamble)
+      return sections.map((chunk, index) => ({ entry, chunk, sourceIndex, fromEnd: sections.length - index }))
+    })
+    .sort((a, b) =>
+      Number(b.chunk.optional) - Number(a.chunk.optional) || a.fromEnd - b.fromEnd || b.sourceIndex - a.sourceIndex
+    )
+
+  // Headers and table of contents, without any content
+  const frameTokens = estimateTokens(renderBundle(entries.map(entry => ({ ...entry, chunks: [] })), budget, 0))
+  let total = frameTokens + entries.reduce((sum, entry) => sum + entry.chunks.reduce((s, c) => s + c.tokens, 0), 0)
+  const trimmed: TrimmedSection[] = []
+  for (const candidate of candidates) {
+    if (total <= budget) {
+      break
+    }
+    candidate.chunk.kept = false
+    total -= candidate.chunk.tokens
+    trimmed.push({ website: candidate.entry.source.website, kind: candidate.entry.source.kind, title: candidate.chunk.title })
+  }
+
+  return { markdown: renderBundle(entries, budget, total), tokens: total, budget, trimmed }
+}
+
+/**
+ * Renders the bundle document from the chunks that are kept
+ */
+function renderBundle(
+  entries: { source: BundleSource; chunks: (BundleChunk & { kept: boolean })[] }[],
+  budget: number,
+  tokens: number
+): string {
+  const headers = entries.map(entry => `${entry.source.website.name} (${entry.source.kind})`)
+  const anchors = uniqueAnchors(headers)
+
+  const lines = [
+    '# Context Bundle',
+    '',
+    `> ${entries.length} ${entries.length === 1 ? 'source' : 'sources'}, about ${tokens.toLocaleString('en-US')} tokens of a ${budget.toLocaleString('en-US')} token budget`,
+    '',
+    '## Contents',
+    '',
+    ...headers.map((header, index) => `- [${header}](#${anchors[index]})`)
+  ]
+
+  entries.forEach((entry, index) => {
+    const kept = entry.chunks.filter(chunk => chunk.kept)
+    const left = entry.chunks.filter(chunk => !chunk.kept)
+    lines.push('', '---', '', `## ${headers[index]}`, '', `Source: <${entry.source.url}>`)
+    for (const chunk of kept) {
+      if (chunk.text) {
+        lines.push('', demoteHeadings(chunk.text))
+      }
+    }
+    if (left.length > 0) {
+      lines.push('', `_Left out to fit the token budget: ${left.map(chunk => chunk.title).join(', ')}_`)
+    }
+  })
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Moves headings down so the content nests under a header, two levels by default
+ */
+export function demoteHeadings(text: string, levels = 2): string {
+  let inFence = false
+  return text
+    .split('\n')
+    .map(line => {
+      if (FENCE_PATTERN.test(line)) {
+        inFence = !inFence
+        return line
+      }
+      const match = !inFence && /^(#{1,6})(\s.*)$/.exec(line)
+      return match ? `${'#'.repeat(Math.min(match[1].length + levels, 6))}${match[2]}` : line
+    })
+    .join('\n')
+}
+
+/**
+ * Builds GitHub-style heading anchors, numbering duplicates
+ */
+function uniqueAnchors(headings: string[]): string[] {
+  const seen = new Map<string, number>()
+  return headings.map(heading => {
+    const slug = heading
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s-]/gu, '')
+      .trim()
+      .replace(/\s/g, '-')
+    const count = seen.get(slug) ?? 0
+    seen.set(slug, count + 1)
+    return count === 0 ? slug : `${slug}-${count}`
+  })
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode'
+import type { Website } from '../types'
+import { getDomainKey } from './websiteService'
+
+/**
+ * Source label of the websites added with the Add Website command
+ */
+export const CUSTOM_WEBSITES_SOURCE = 'Custom'
+
+/**
+ * Websites the user added themselves, stored apart from the registry so they survive its refreshes.
+ * A custom website takes precedence over a registry website with the same domain.
+ */
+export class CustomWebsites implements vscode.Disposable {
+  private static readonly STORAGE_KEY = 'customWebsites'
+
+  private _onDidChange = new vscode.EventEmitter<void>()
+  /** Fires when websites are added, edited or removed */
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event
+
+  private context: vscode.ExtensionContext
+  private websites: Website[]
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context
+    this.websites = context.globalState.get<Website[]>(CustomWebsites.STORAGE_KEY, [])
+  }
+
+  getAll(): Website[] {
+    return this.websites
+  }
+
+  /**
+   * Finds the custom website with the same domain, e.g. "https://www.example.com/" for "example.com"
+   */
+  find(domain: string): Website | undefined {
+    const key = getDomainKey(domain)
+    return this.websites.find(website => getDomainKey(website.domain) === key)
+  }
+
+  /**
+   * Adds a website, replacing a custom website with the same domain
+   */
+  async add(website: Website): Promise<void> {
+    const key = getDomainKey(website.domain)
+    this.websites = [
+      ...this.websites.filter(existing => getDomainKey(existing.domain) !== key),
+      { ...website, source: CUSTOM_WEBSITES_SOURCE }
+    ]
+    await this.save()
+  }
+
+  /**
+   * Replaces a custom website, keeping its position
+   * @param domain Domain of the website before the edit
+   * @param website The edited website
+   */
+  async update(domain: string, website: Website): Promise<void> {
+    const key = getDomainKey(domain)
+    const index = this.websites.findIndex(existing => getDomainKey(existing.domain) === key)
+    if (index === -1) {
+      throw new Error(`${domain} is not a custom website`)
+    }
+    this.websites = this.websites.map((existing, i) =>
+      i === index ? { ...website, source: CUSTOM_WEBSITES_SOURCE } : existing
+    )
+    await this.save()
+  }
+
+  async remove(domain: string): Promise<void> {
+    const key = getDomainKey(domain)
+    const remaining = this.websites.filter(website => getDomainKey(website.domain) !== key)
+    if (remaining.length !== this.websites.length) {
+      this.websites = remaining
+      await this.save()
+    }
+  }
+
+  private async save(): Promise<void> {
+    await this.context.globalState.update(CustomWebsites.STORAGE_KEY, this.websites)
+    this._onDidChange.fire()
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose()
+  }
+}
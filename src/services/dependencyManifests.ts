@@ -0,0 +1,242 @@
+import * as vscode from 'vscode'
+import * as path from 'node:path'
+import type { DependencyEcosystem, ProjectDependency } from '../types'
+
+/**
+ * Manifests scanned for dependencies
+ */
+export const MANIFEST_GLOB = '**/{package.json,requirements*.txt,pyproject.toml,go.mod,Cargo.toml,composer.json,Gemfile}'
+
+// Installed packages and build output contain manifests of their own
+const EXCLUDED_DIRECTORIES = ['node_modules', 'vendor', '.venv', 'venv', 'target', 'dist', 'build', '.git']
+const EXCLUDE_GLOB = `**/{${EXCLUDED_DIRECTORIES.join(',')}}/**`
+const MAX_MANIFESTS = 200
+
+/**
+ * Whether a file is a manifest of the project rather than of an installed package or build output
+ */
+export function isProjectManifest(uri: vscode.Uri): boolean {
+  return !uri.path.split('/').some(segment => EXCLUDED_DIRECTORIES.includes(segment))
+}
+
+/**
+ * Finds the manifests in the workspace and collects their dependencies, each dependency once
+ */
+export async function scanWorkspaceDependencies(): Promise<ProjectDependency[]> {
+  const files = await vscode.workspace.findFiles(MANIFEST_GLOB, EXCLUDE_GLOB, MAX_MANIFESTS)
+  const dependencies = new Map<string, ProjectDependency>()
+
+  for (const file of files) {
+    try {
+      const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(file))
+      const manifest = parseManifest(path.posix.basename(file.path), content)
+      if (!manifest) {
+        continue
+      }
+      const relativePath = vscode.workspace.asRelativePath(file)
+      for (const name of manifest.names) {
+        const key = `${manifest.ecosystem}:${name.toLowerCase()}`
+        const existing = dependencies.get(key)
+        if (existing) {
+          existing.manifests.push(relativePath)
+        } else {
+          dependencies.set(key, { name, ecosystem: manifest.ecosystem, manifests: [relativePath] })
+        }
+      }
+    } catch (error) {
+      console.error(`Error reading dependencies from ${file.fsPath}:`, error)
+    }
+  }
+
+  return Array.from(dependencies.values())
+}
+
+/**
+ * Reads the names of the dependencies declared in a manifest
+ * @param fileName Name of the manifest file, e.g. "package.json"
+ * @returns The ecosystem and dependency names, or undefined for files that are not manifests
+ */
+export function parseManifest(
+  fileName: string,
+  content: string
+): { ecosystem: DependencyEcosystem; names: string[] } | undefined {
+  if (fileName === 'package.json') {
+    return { ecosystem: 'npm', names: parsePackageJson(content) }
+  }
+  if (/^requirements.*\.txt$/.test(fileName)) {
+    return { ecosystem: 'pypi', names: parseRequirementsTxt(content) }
+  }
+  if (fileName === 'pyproject.toml') {
+    return { ecosystem: 'pypi', names: parsePyprojectToml(content) }
+  }
+  if (fileName === 'go.mod') {
+    return { ecosystem: 'go', names: parseGoMod(content) }
+  }
+  if (fileName === 'Cargo.toml') {
+    return { ecosystem: 'cargo', names: parseCargoToml(content) }
+  }
+  if (fileName === 'composer.json') {
+    return { ecosystem: 'composer', names: parseComposerJson(content) }
+  }
+  if (fileName === 'Gemfile') {
+    return { ecosystem: 'rubygems', names: parseGemfile(content) }
+  }
+  return undefined
+}
+
+function parsePackageJson(content: string): string[] {
+  const manifest = JSON.parse(content)
+  return unique(
+    ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'].flatMap(field =>
+      Object.keys(manifest?.[field] ?? {})
+    )
+  )
+}
+
+function parseComposerJson(content: string): string[] {
+  const manifest = JSON.parse(content)
+  return unique(
+    ['require', 'require-dev']
+      .flatMap(field => Object.keys(manifest?.[field] ?? {}))
+      // Platform requirements such as "php" and "ext-json" are not packages
+      .filter(name => name.includes('/'))
+  )
+}
+
+function parseRequirementsTxt(content: string): string[] {
+  return unique(
+    content
+      .split('\n')
+      .map(line => line.replace(/#.*/, '').trim())
+      // Options such as "-r base.txt" and direct URLs have no package name to match
+      .filter(line => line && !line.startsWith('-') && !/^[a-z+]+:\/\//i.test(line))
+      .map(line => /^([A-Za-z0-9][A-Za-z0-9._-]*)/.exec(line)?.[1])
+      .filter((name): name is string => Boolean(name))
+  )
+}
+
+function parsePyprojectToml(content: string): string[] {
+  const names: string[] = []
+  for (const [table, body] of getTomlTables(content)) {
+    if (table === 'project') {
+      // PEP 621: dependencies = ["fastapi>=0.110", "uvicorn[standard]"]
+      const match = /^dependencies\s*=\s*\[/m.exec(body)
+      if (match) {
+        names.push(...readTomlStringArray(body.slice(match.index + match[0].length)).map(getRequirementName))
+      }
+    } else if (table === 'project.optional-dependencies') {
+      for (const match of body.matchAll(/^[\w.-]+\s*=\s*\[/gm)) {
+        names.push(...readTomlStringArray(body.slice((match.index ?? 0) + match[0].length)).map(getRequirementName))
+      }
+    } else if (/^tool\.poetry\.(dev-dependencies|dependencies|group\.[^.]+\.dependencies)$/.test(table)) {
+      names.push(...getTomlKeys(body).filter(name => name !== 'python'))
+    }
+  }
+  return unique(names.filter(Boolean))
+}
+
+function parseCargoToml(content: string): string[] {
+  const names: string[] = []
+  for (const [table, body] of getTomlTables(content)) {
+    // [dependencies], [dev-dependencies], [workspace.dependencies], [target.'cfg(unix)'.dependencies]
+    if (/(^|\.)(dependencies|dev-dependencies|build-dependencies)$/.test(table)) {
+      names.push(...getTomlKeys(body))
+    }
+    // [dependencies.serde]
+    const subTable = /(?:^|\.)(?:dependencies|dev-dependencies|build-dependencies)\.([\w-]+)$/.exec(table)
+    if (subTable) {
+      names.push(subTable[1])
+    }
+  }
+  return unique(names)
+}
+
+function parseGoMod(content: string): string[] {
+  const names: string[] = []
+  let inRequireBlock = false
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim()
+    if (line.startsWith('require (')) {
+      inRequireBlock = true
+      continue
+    }
+    if (inRequireBlock && line.startsWith(')')) {
+      inRequireBlock = false
+      continue
+    }
+    // Indirect dependencies are pulled in by others rather than used by the project
+    const requirement = inRequireBlock ? line : /^require\s+(.*)$/.exec(line)?.[1]
+    if (requirement && !requirement.includes('// indirect')) {
+      const modulePath = /^(\S+)\s+v/.exec(requirement)?.[1]
+      if (modulePath) {
+        names.push(modulePath)
+      }
+    }
+  }
+  return unique(names)
+}
+
+function parseGemfile(content: string): string[] {
+  return unique(
+    content
+      .split('\n')
+      .map(line => /^\s*gem\s+['"]([^'"]+)['"]/.exec(line)?.[1])
+      .filter((name): name is string => Boolean(name))
+  )
+}
+
+/**
+ * Splits a TOML document into its tables, e.g. "tool.poetry.dependencies", with the lines of each.
+ * Content before the first table is returned under an empty name.
+ */
+function getTomlTables(content: string): Map<string, string> {
+  const tables = new Map<string, string>()
+  let name = ''
+  let lines: string[] = []
+  for (const line of content.split('\n')) {
+    const header = /^\s*\[([^[\]]+)\]\s*(#.*)?$/.exec(line)
+    if (header || /^\s*\[\[/.test(line)) {
+      tables.set(name, [tables.get(name), ...lines].filter(part => part !== undefined).join('\n'))
+      // Array tables such as [[bin]] hold no dependencies
+      name = header ? header[1].trim().replace(/\s*\.\s*/g, '.').replace(/"/g, '') : '[[array]]'
+      lines = []
+    } else {
+      lines.push(line)
+    }
+  }
+  tables.set(name, [tables.get(name), ...lines].filter(part => part !== undefined).join('\n'))
+  return tables
+}
+
+/**
+ * Gets the keys set at the start of lines of a TOML table, e.g. "serde" in `serde = "1"`
+ */
+function getTomlKeys(body: string): string[] {
+  return Array.from(body.matchAll(/^\s*"?([A-Za-z0-9_.-]+)"?\s*=/gm), match => match[1])
+}
+
+/**
+ * Reads the strings of a TOML array up to its closing bracket
+ * @param text Text following the opening bracket
+ */
+function readTomlStringArray(text: string): string[] {
+  const values: string[] = []
+  for (const match of text.matchAll(/"([^"]*)"|'([^']*)'|(\])/g)) {
+    if (match[3]) {
+      break
+    }
+    values.push(match[1] ?? match[2])
+  }
+  return values
+}
+
+/**
+ * Gets the package name of a PEP 508 requirement, e.g. "uvicorn" in "uvicorn[standard]>=0.29"
+ */
+function getRequirementName(requirement: string): string {
+  return /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)/.exec(requirement)?.[1] ?? ''
+}
+
+function unique(names: string[]): string[] {
+  return Array.from(new Set(names))
+}
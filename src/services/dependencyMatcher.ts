@@ -0,0 +1,167 @@
+import type { ProjectDependency, Website } from '../types'
+import { findWebsiteByDomain, getDomainKey } from './websiteService'
+
+/**
+ * Dependency names mapped to the domain or name of a website, or to null to never recommend one.
+ * A name ending in `*` matches every dependency starting with it, e.g. `@aws-sdk/*`.
+ */
+export type DependencyMapping = Record<string, string | null>
+
+/**
+ * A website recommended for some of the project's dependencies
+ */
+export interface ProjectRecommendation {
+  website: Website
+  dependencies: ProjectDependency[]
+  /** Whether a dependency was mapped to the website rather than matched by name */
+  mapped: boolean
+}
+
+// Short names match too many unrelated websites
+const MIN_CANDIDATE_LENGTH = 3
+
+// Affixes packages often add to the name of the product they are for, e.g. "stripe-node"
+const PREFIXES = ['python-', 'py-', 'node-', 'go-', 'ruby-']
+const SUFFIXES = ['-sdk', '-client', '-api', '-python', '-py', '-node', '-js', '-go', '-rs', '-ruby', '-php']
+
+// Hosts of go modules that are code forges rather than the product's own domain
+const CODE_HOSTS = ['github.com', 'gitlab.com', 'bitbucket.org', 'golang.org', 'go.googlesource.com', 'gopkg.in']
+
+// Subdomains left out when reducing a website's domain to its product name
+const GENERIC_SUBDOMAINS = ['www', 'docs', 'doc', 'developer', 'developers', 'dev', 'api', 'platform']
+
+/**
+ * Matches dependencies to websites, first with the mapping, then by comparing the package
+ * and scope names to website names and domains
+ * @returns The recommended websites, by name
+ */
+export function matchDependencies(
+  dependencies: ProjectDependency[],
+  websites: Website[],
+  mapping: DependencyMapping = {}
+): ProjectRecommendation[] {
+  const index = createWebsiteIndex(websites)
+  const recommendations = new Map<string, ProjectRecommendation>()
+
+  for (const dependency of dependencies) {
+    const mapped = getMappedValue(dependency.name, mapping)
+    if (mapped === null) {
+      continue
+    }
+    const website = mapped !== undefined
+      ? findWebsiteByDomain(websites, mapped)
+      : getDependencyCandidates(dependency).map(candidate => index.get(candidate)).find(Boolean)
+    if (!website) {
+      continue
+    }
+
+    const key = getDomainKey(website.domain)
+    const recommendation = recommendations.get(key) ?? { website, dependencies: [], mapped: false }
+    recommendation.dependencies.push(dependency)
+    recommendation.mapped ||= mapped !== undefined
+    recommendations.set(key, recommendation)
+  }
+
+  return Array.from(recommendations.values()).sort((a, b) => a.website.name.localeCompare(b.website.name))
+}
+
+/**
+ * Looks a dependency up in the mapping, exact names taking precedence over prefixes
+ * @returns The mapped website, null when the dependency is ignored, or undefined when it is not mapped
+ */
+export function getMappedValue(name: string, mapping: DependencyMapping): string | null | undefined {
+  const lowerName = name.toLowerCase()
+  let prefixMatch: { length: number; value: string | null } | undefined
+  for (const [key, value] of Object.entries(mapping)) {
+    const lowerKey = key.toLowerCase()
+    if (lowerKey === lowerName) {
+      return value || null
+    }
+    if (lowerKey.endsWith('*') && lowerName.startsWith(lowerKey.slice(0, -1)) && lowerKey.length > (prefixMatch?.length ?? 0)) {
+      prefixMatch = { length: lowerKey.length, value: value || null }
+    }
+  }
+  return prefixMatch?.value
+}
+
+/**
+ * Indexes websites by their normalized name, by their name without a "js" suffix,
+ * e.g. "next" for Next.js, by their domain and by the product part of their domain
+ */
+function createWebsiteIndex(websites: Website[]): Map<string, Website> {
+  const index = new Map<string, Website>()
+  const add = (token: string, website: Website) => {
+    if (token.length >= MIN_CANDIDATE_LENGTH && !index.has(token)) {
+      index.set(token, website)
+    }
+  }
+
+  // Names take precedence over domains, which are less specific
+  for (const website of websites) {
+    const name = normalize(website.name)
+    add(name, website)
+    add(name.replace(/js$/, ''), website)
+  }
+  for (const website of websites) {
+    const host = getDomainKey(website.domain).split('/')[0]
+    add(host, website)
+    const labels = host.split('.').filter(label => !GENERIC_SUBDOMAINS.includes(label))
+    if (labels.length >= 2) {
+      add(normalize(labels[labels.length - 2]), website)
+    }
+  }
+  return index
+}
+
+/**
+ * Gets the names a dependency may be listed under, most specific first,
+ * e.g. "prisma" then "client" for "@prisma/client", or "guzzle" then "guzzlehttp" for "guzzlehttp/guzzle"
+ */
+function getDependencyCandidates(dependency: ProjectDependency): string[] {
+  const domains: string[] = []
+  const names: string[] = []
+  const name = dependency.name.toLowerCase()
+
+  if (dependency.ecosystem === 'go') {
+    const segments = name.split('/').filter(segment => !/^v\d+$/.test(segment))
+    const [host, owner] = segments
+    if (host.includes('.') && !CODE_HOSTS.includes(host)) {
+      // Vanity import paths such as "gorm.io/gorm" use the product's domain
+      domains.push(host)
+    }
+    names.push(segments[segments.length - 1])
+    if (owner && CODE_HOSTS.includes(host)) {
+      names.push(owner)
+    }
+  } else if (name.startsWith('@types/')) {
+    // Type definitions are not the library itself
+    return []
+  } else if (name.startsWith('@')) {
+    // npm scopes name the product, while their packages often have generic names such as "client" or "core"
+    const [scope, packageName] = name.slice(1).split('/')
+    names.push(scope, packageName)
+  } else if (name.includes('/')) {
+    // Composer vendors such as "stripe/stripe-php"
+    const [vendor, packageName] = name.split('/')
+    names.push(packageName, vendor)
+  } else {
+    names.push(name)
+  }
+
+  const candidates = names.flatMap(candidate => [candidate, stripAffixes(candidate)]).map(normalize)
+  return Array.from(new Set([...domains, ...candidates])).filter(candidate => candidate.length >= MIN_CANDIDATE_LENGTH)
+}
+
+function stripAffixes(name: string): string {
+  const prefix = PREFIXES.find(candidate => name.startsWith(candidate))
+  const withoutPrefix = prefix ? name.slice(prefix.length) : name
+  const suffix = SUFFIXES.find(candidate => withoutPrefix.endsWith(candidate))
+  return suffix ? withoutPrefix.slice(0, -suffix.length) : withoutPrefix
+}
+
+/**
+ * Lowercases a name and drops everything but letters and digits, e.g. "nextjs" for "Next.js"
+ */
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode'
+import type { LlmsFileKind, Website } from '../types'
+import type { ContentCache } from './contentCache'
+import type { ContentHistory, ContentSnapshot } from './contentHistory'
+
+/**
+ * A favorite's file that changed since it was last checked
+ */
+export interface FavoriteUpdate {
+  domain: string
+  kind: LlmsFileKind
+  url: string
+  /** Document title, e.g. "Stripe - LLMS.txt" */
+  title: string
+  /** When the change was found */
+  detectedAt: number
+  /** Versions before and after the change, when the content history is on */
+  previous?: ContentSnapshot
+  current?: ContentSnapshot
+}
+
+/**
+ * Host of the poller: where favorites come from and where found updates go
+ */
+export interface FavoritesUpdateHost {
+  getFavorites(): Website[]
+  addUpdates(updates: FavoriteUpdate[]): Promise<void>
+}
+
+const LAST_CHECK_KEY = 'favoritesLastUpdateCheck'
+
+// Failing files are retried after the interval times 2^failures, up to this factor
+const MAX_BACKOFF_FACTOR = 16
+
+// Delay before the first check after startup, so activation is not slowed down
+const STARTUP_DELAY_MS = 60 * 1000
+
+/**
+ * Periodically checks favorites' llms.txt and llms-full.txt files for changes with conditional
+ * requests. Runs only when `llms-txt.favorites.checkForUpdates` is on.
+ */
+export class FavoritesUpdatePoller implements vscode.Disposable {
+  private readonly context: vscode.ExtensionContext
+  private readonly host: FavoritesUpdateHost
+  private readonly contentCache: ContentCache
+  private readonly history: ContentHistory
+  private timer?: NodeJS.Timeout
+  private checking?: Promise<FavoriteUpdate[]>
+  private failures = new Map<string, { count: number; retryAt: number }>()
+
+  constructor(
+    context: vscode.ExtensionContext,
+    host: FavoritesUpdateHost,
+    contentCache: ContentCache,
+    history: ContentHistory
+  ) {
+    this.context = context
+    this.host = host
+    this.contentCache = contentCache
+    this.history = history
+  }
+
+  /**
+   * Schedules the next check from the settings, or stops polling when it is turned off
+   */
+  start(): void {
+    this.stop()
+    const config = vscode.workspace.getConfiguration('llms-txt')
+    if (!config.get<boolean>('favorites.checkForUpdates', false)) {
+      return
+    }
+
+    const lastCheck = this.context.globalState.get<number>(LAST_CHECK_KEY, 0)
+    const delay = Math.max(STARTUP_DELAY_MS, lastCheck + this.getInterval() - Date.now())
+    this.timer = setTimeout(() => {
+      this.check()
+        .catch(error => console.error('Error checking favorites for updates:', error))
+        .finally(() => this.start())
+    }, delay)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  /**
+   * Checks every favorite's files now, skipping files that are backing off after failures
+   * @returns The files that changed
+   */
+  check(): Promise<FavoriteUpdate[]> {
+    if (!this.checking) {
+      this.checking = this.checkFavorites().finally(() => {
+        this.checking = undefined
+      })
+    }
+    return this.checking
+  }
+
+  dispose(): void {
+    this.stop()
+  }
+
+  private async checkFavorites(): Promise<FavoriteUpdate[]> {
+    const files = this.host.getFavorites().flatMap(website =>
+      [
+        { kind: 'llms.txt' as LlmsFileKind, url: website.llmsTxtUrl, label: 'LLMS.txt' },
+        { kind: 'llms-full.txt' as LlmsFileKind, url: website.llmsFullTxtUrl, label: 'LLMS Full.txt' }
+      ]
+        .filter((file): file is { kind: LlmsFileKind; url: string; label: string } => !!file.url)
+        .map(file => ({ ...file, website }))
+    )
+
+    // One file at a time, to stay gentle with the servers
+    const updates: FavoriteUpdate[] = []
+    for (const file of files) {
+      const failure = this.failures.get(file.url)
+      if (failure && failure.retryAt > Date.now()) {
+        continue
+      }
+
+      try {
+        const update = await this.checkFile(file.url)
+        this.failures.delete(file.url)
+        if (update) {
+          updates.push({
+            domain: file.website.domain,
+            kind: file.kind,
+            url: file.url,
+            title: `${file.website.name} - ${file.label}`,
+            detectedAt: Date.now(),
+            ...update
+          })
+        }
+      } catch (error) {
+        const count = (failure?.count ?? 0) + 1
+        const backoff = this.getInterval() * Math.min(2 ** count, MAX_BACKOFF_FACTOR)
+        this.failures.set(file.url, { count, retryAt: Date.now() + backoff })
+        console.warn(`Error checking ${file.url} for updates:`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    await this.context.globalState.update(LAST_CHECK_KEY, Date.now())
+    if (updates.length > 0) {
+      await this.host.addUpdates(updates)
+    }
+    return updates
+  }
+
+  /**
+   * Revalidates a file against its cached copy
+   * @returns The versions before and after, when the file changed; undefined when unchanged or seen for the first time
+   */
+  private async checkFile(url: string): Promise<Pick<FavoriteUpdate, 'previous' | 'current'> | undefined> {
+    const before = await this.contentCache.read(url)
+    if (before !== undefined) {
+      // Make sure the known version is in the history so the change can be diffed
+      await this.history.record(url, before)
+    }
+
+    const after = await this.contentCache.fetch(url, false)
+    if (before === undefined || after === before) {
+      return undefined
+    }
+
+    // The new version may already have been recorded when the cache stored it
+    await this.history.record(url, after)
+    const [current, previous] = await this.history.list(url)
+    return { previous, current }
+  }
+
+  private getInterval(): number {
+    const hours = vscode.workspace.getConfiguration('llms-txt').get<number>('favorites.updateCheckIntervalHours', 6)
+    return Math.max(0.25, hours) * 60 * 60 * 1000
+  }
+}
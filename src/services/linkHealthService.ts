@@ -0,0 +1,261 @@
+import axios from 'axios'
+import type { Readable } from 'node:stream'
+import type { LlmsFileKind, Website } from '../types'
+import { readStreamHead } from './llmsTxtDiscovery'
+
+// Enough of a file to tell a text file from an HTML page
+const SNIFF_BYTES = 1024
+
+/**
+ * Outcome of checking a link:
+ * `ok` serves text, `redirected` serves text from another URL, `broken` answers with an HTTP error,
+ * `html` serves an HTML page instead of the file, `timeout` does not answer in time and `error` cannot be reached
+ */
+export type LinkStatus = 'ok' | 'redirected' | 'broken' | 'html' | 'timeout' | 'error'
+
+/**
+ * A file of a website to check
+ */
+export interface LinkTarget {
+  website: Website
+  kind: LlmsFileKind
+  url: string
+}
+
+/**
+ * Result of checking one file of a website
+ */
+export interface LinkCheckResult {
+  url: string
+  kind: LlmsFileKind
+  /** Domain and name of the website the file belongs to */
+  domain: string
+  name: string
+  status: LinkStatus
+  /** HTTP status code of the final response */
+  httpStatus?: number
+  contentType?: string
+  /** URL the request ended at, when redirects were followed */
+  redirectedTo?: string
+  /** Milliseconds until the response headers arrived, or until giving up */
+  latencyMs: number
+  /** Error message, for unreachable links */
+  error?: string
+  /** ISO date of the check */
+  checkedAt: string
+}
+
+export interface LinkCheckOptions {
+  /** Maximum number of requests in flight */
+  concurrency: number
+  timeoutMs: number
+  /** Stops starting new checks and aborts the ones in flight */
+  signal?: AbortSignal
+  /** Called after each completed check */
+  onResult?: (result: LinkCheckResult, completed: number) => void
+}
+
+// Latest result per URL, so tree items can flag broken links
+const linkHealth = new Map<string, LinkCheckResult>()
+
+/**
+ * Remembers check results, replacing earlier results for the same URLs
+ */
+export function recordLinkHealth(results: LinkCheckResult[]): void {
+  for (const result of results) {
+    linkHealth.set(result.url, result)
+  }
+}
+
+/**
+ * Gets the latest result for a URL, if it was checked
+ */
+export function getLinkHealth(url: string): LinkCheckResult | undefined {
+  return linkHealth.get(url)
+}
+
+/**
+ * Gets the latest result of every checked URL
+ */
+export function getAllLinkHealth(): LinkCheckResult[] {
+  return Array.from(linkHealth.values())
+}
+
+/**
+ * Whether a result means the file cannot be used
+ */
+export function isBrokenLink(result: LinkCheckResult): boolean {
+  return result.status !== 'ok' && result.status !== 'redirected'
+}
+
+/**
+ * Gets the files of websites to check, each URL once
+ */
+export function getLinkTargets(websites: Website[]): LinkTarget[] {
+  const targets = new Map<string, LinkTarget>()
+  for (const website of websites) {
+    if (website.llmsTxtUrl && !targets.has(website.llmsTxtUrl)) {
+      targets.set(website.llmsTxtUrl, { website, kind: 'llms.txt', url: website.llmsTxtUrl })
+    }
+    if (website.llmsFullTxtUrl && !targets.has(website.llmsFullTxtUrl)) {
+      targets.set(website.llmsFullTxtUrl, { website, kind: 'llms-full.txt', url: website.llmsFullTxtUrl })
+    }
+  }
+  return Array.from(targets.values())
+}
+
+/**
+ * Checks links with a bounded number of requests in flight
+ * @returns The results of the completed checks, in completion order; fewer than the targets when aborted
+ */
+export async function checkLinks(targets: LinkTarget[], options: LinkCheckOptions): Promise<LinkCheckResult[]> {
+  const results: LinkCheckResult[] = []
+  let next = 0
+
+  const worker = async () => {
+    while (next < targets.length && !options.signal?.aborted) {
+      const result = await checkLink(targets[next++], options.timeoutMs, options.signal)
+      // Checks cut short by the abort say nothing about the link
+      if (options.signal?.aborted) {
+        return
+      }
+      results.push(result)
+      options.onResult?.(result, results.length)
+    }
+  }
+
+  const workers = Math.max(1, Math.min(options.concurrency, targets.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+  return results
+}
+
+/**
+ * Requests the start of a file, following redirects, and classifies the response
+ */
+export async function checkLink(target: LinkTarget, timeoutMs: number, signal?: AbortSignal): Promise<LinkCheckResult> {
+  const base = {
+    url: target.url,
+    kind: target.kind,
+    domain: target.website.domain,
+    name: target.website.name,
+    checkedAt: new Date().toISOString()
+  }
+
+  // Covers a server that sends headers and then stalls, which the request timeout does not
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort)
+
+  const started = Date.now()
+  try {
+    const response = await axios.get<Readable>(target.url, {
+      responseType: 'stream',
+      signal: controller.signal,
+      maxRedirects: 5,
+      validateStatus: () => true,
+      headers: {
+        Accept: 'text/plain, text/markdown;q=0.9, */*;q=0.5',
+        Range: `bytes=0-${SNIFF_BYTES - 1}`
+      }
+    })
+    const latencyMs = Date.now() - started
+    const contentType = response.headers['content-type'] ? String(response.headers['content-type']) : undefined
+    const finalUrl: string | undefined = response.request?.res?.responseUrl
+    const redirectedTo = finalUrl && finalUrl !== target.url ? finalUrl : undefined
+    const result = { ...base, httpStatus: response.status, contentType, redirectedTo, latencyMs }
+
+    if (response.status >= 400) {
+      response.data.destroy()
+      return { ...result, status: 'broken' }
+    }
+    if (contentType && /html/i.test(contentType)) {
+      response.data.destroy()
+      return { ...result, status: 'html' }
+    }
+    // Some servers send HTML error pages as text/plain
+    const head = await readStreamHead(response.data, SNIFF_BYTES)
+    if (/^\s*<(!doctype|html|head|body)/i.test(head)) {
+      return { ...result, status: 'html' }
+    }
+    return { ...result, status: redirectedTo ? 'redirected' : 'ok' }
+  } catch (error) {
+    const latencyMs = Date.now() - started
+    const code = axios.isAxiosError(error) ? error.code : undefined
+    if (timedOut || code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+      return { ...base, status: 'timeout', latencyMs, error: `No response within ${Math.round(timeoutMs / 1000)} s` }
+    }
+    return { ...base, status: 'error', latencyMs, error: error instanceof Error ? error.message : String(error) }
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * Describes the outcome of a check in a few words, e.g. "HTTP 404" or "Serves an HTML page"
+ */
+export function describeLinkStatus(result: LinkCheckResult): string {
+  switch (result.status) {
+    case 'ok':
+      return 'OK'
+    case 'redirected':
+      return `Redirects to ${result.redirectedTo}`
+    case 'broken':
+      return `HTTP ${result.httpStatus}`
+    case 'html':
+      return 'Serves an HTML page instead of the file'
+    case 'timeout':
+    case 'error':
+      return result.error ?? 'Unreachable'
+  }
+}
+
+/**
+ * Formats results as a markdown report listing the broken and redirected links
+ */
+export function formatLinkHealthReport(results: LinkCheckResult[]): string {
+  // Results recorded by earlier checks may be mixed in, so the report dates from the latest
+  const checkedAt = new Date(Math.max(...results.map(result => Date.parse(result.checkedAt))))
+  const broken = results.filter(isBrokenLink)
+  const redirected = results.filter(result => result.status === 'redirected')
+  const ok = results.filter(result => result.status === 'ok')
+  const byName = (a: LinkCheckResult, b: LinkCheckResult) => a.name.localeCompare(b.name) || a.kind.localeCompare(b.kind)
+
+  const lines = [
+    '# LLMS.txt Link Health',
+    '',
+    `Checked ${results.length} links on ${checkedAt.toLocaleString()}: ${ok.length} OK, ${redirected.length} redirected, ${broken.length} broken.`
+  ]
+
+  if (broken.length > 0) {
+    lines.push('', `## Broken (${broken.length})`, '', '| Website | File | Problem | Content-Type | Latency |', '| --- | --- | --- | --- | --- |')
+    for (const result of [...broken].sort(byName)) {
+      lines.push(
+        `| ${escapeCell(result.name)} | [${result.kind}](${result.url}) | ${escapeCell(describeLinkStatus(result))} | ${escapeCell(result.contentType ?? '')} | ${result.latencyMs} ms |`
+      )
+    }
+  }
+
+  if (redirected.length > 0) {
+    lines.push('', `## Redirected (${redirected.length})`, '', '| Website | File | Redirects to | Latency |', '| --- | --- | --- | --- |')
+    for (const result of [...redirected].sort(byName)) {
+      lines.push(`| ${escapeCell(result.name)} | [${result.kind}](${result.url}) | ${result.redirectedTo} | ${result.latencyMs} ms |`)
+    }
+  }
+
+  if (ok.length > 0) {
+    const latencies = ok.map(result => result.latencyMs).sort((a, b) => a - b)
+    lines.push('', `## OK (${ok.length})`, '', `Median latency: ${latencies[Math.floor(latencies.length / 2)]} ms`)
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+}
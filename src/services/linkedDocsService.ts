@@ -0,0 +1,122 @@
+import { parseLlmsTxt } from './llmsTxtParser'
+import { isDocUrl } from './markdownRenderer'
+import { demoteHeadings } from './contextBundleService'
+
+/**
+ * A markdown or text doc linked from an llms.txt
+ */
+export interface LinkedDoc {
+  /** Title of the llms.txt section listing the doc */
+  section: string
+  title: string
+  url: string
+}
+
+/**
+ * A linked doc with its content, or the reason it could not be fetched
+ */
+export interface FetchedLinkedDoc extends LinkedDoc {
+  content?: string
+  error?: string
+}
+
+export interface LinkedDocsFetchOptions {
+  /** Maximum number of requests in flight, 4 by default */
+  concurrency?: number
+  /** Stops starting new fetches */
+  signal?: AbortSignal
+  /** Called after each fetch, successful or not */
+  onFetched?: (doc: FetchedLinkedDoc, completed: number) => void
+}
+
+// The index itself and its llms-full.txt are not docs to assemble
+const LLMS_FILE_PATTERN = /\/llms(-full)?\.txt$/i
+const DEFAULT_CONCURRENCY = 4
+
+/**
+ * Gets the markdown and text docs an llms.txt links to, each once, in the order listed.
+ * Relative links are resolved against the URL of the llms.txt.
+ * @param content Content of the llms.txt
+ * @param indexUrl URL of the llms.txt
+ */
+export function getLinkedDocs(content: string, indexUrl: string): LinkedDoc[] {
+  const docs = new Map<string, LinkedDoc>()
+  for (const section of parseLlmsTxt(content).sections) {
+    for (const link of section.links) {
+      let url: string
+      try {
+        url = new URL(link.url, indexUrl).toString()
+      } catch {
+        continue
+      }
+      if (isDocUrl(url) && !LLMS_FILE_PATTERN.test(new URL(url).pathname) && !docs.has(url)) {
+        docs.set(url, { section: section.title, title: link.title, url })
+      }
+    }
+  }
+  return Array.from(docs.values())
+}
+
+/**
+ * Fetches linked docs with a bounded number of requests in flight
+ * @param fetchContent Fetches the content of a URL, e.g. through the content cache
+ * @returns The docs in the order given; the ones not fetched before the signal aborted are left out
+ */
+export async function fetchLinkedDocs(
+  docs: LinkedDoc[],
+  fetchContent: (url: string) => Promise<string>,
+  options: LinkedDocsFetchOptions
+): Promise<FetchedLinkedDoc[]> {
+  const results: (FetchedLinkedDoc | undefined)[] = new Array(docs.length)
+  let next = 0
+  let completed = 0
+
+  const worker = async () => {
+    while (next < docs.length && !options.signal?.aborted) {
+      const index = next++
+      const doc = docs[index]
+      try {
+        results[index] = { ...doc, content: await fetchContent(doc.url) }
+      } catch (error) {
+        results[index] = { ...doc, error: error instanceof Error ? error.message : String(error) }
+      }
+      options.onFetched?.(results[index]!, ++completed)
+    }
+  }
+
+  const workers = Math.max(1, Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, docs.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+  return results.filter((result): result is FetchedLinkedDoc => result !== undefined)
+}
+
+/**
+ * Assembles fetched docs into one markdown document in the manner of an llms-full.txt:
+ * one H2 per llms.txt section and one H3 per doc, with the docs' own headings nested below
+ * @param title Title of the document, e.g. the website's name
+ * @param indexUrl URL of the llms.txt the docs are linked from
+ */
+export function assembleLinkedDocs(title: string, indexUrl: string, docs: FetchedLinkedDoc[], date = new Date()): string {
+  const fetched = docs.filter(doc => doc.content !== undefined)
+  const failed = docs.filter(doc => doc.content === undefined)
+
+  const lines = [
+    `# ${title}`,
+    '',
+    `> Assembled from ${fetched.length} ${fetched.length === 1 ? 'doc' : 'docs'} linked from <${indexUrl}> on ${date.toISOString().slice(0, 10)}`
+  ]
+
+  let section: string | undefined
+  for (const doc of fetched) {
+    if (doc.section !== section) {
+      section = doc.section
+      lines.push('', `## ${section}`)
+    }
+    lines.push('', `### ${doc.title}`, '', `Source: <${doc.url}>`, '', demoteHeadings(doc.content!.trim(), 3))
+  }
+
+  if (failed.length > 0) {
+    lines.push('', '## Not Fetched', '', ...failed.map(doc => `- [${doc.title}](${doc.url}): ${doc.error}`))
+  }
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,143 @@
+import axios from 'axios'
+import type { Readable } from 'node:stream'
+import { parseLlmsTxt } from './llmsTxtParser'
+
+// Only the start of a file is needed to recognize it and read its title and summary
+const PROBE_BYTES = 8192
+const PROBE_TIMEOUT_MS = 10000
+
+// Directories llms.txt files are commonly published in, besides the one of the URL entered
+const COMMON_DIRECTORIES = ['/', '/docs/', '/.well-known/']
+
+/**
+ * What was found when looking for a website's llms.txt files
+ */
+export interface DiscoveredLlmsTxt {
+  /** Origin of the website, e.g. "https://docs.example.com" */
+  domain: string
+  llmsTxtUrl?: string
+  llmsFullTxtUrl?: string
+  /** The H1 title of the llms.txt */
+  title?: string
+  /** The blockquote summary of the llms.txt */
+  summary?: string
+}
+
+/**
+ * Parses a domain or URL typed by the user, e.g. "example.com" or "https://example.com/docs"
+ * @returns The URL, or undefined when the input is not a web address
+ */
+export function parseWebsiteInput(input: string): URL | undefined {
+  const trimmed = input.trim()
+  if (!trimmed) {
+    return undefined
+  }
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+    return (url.protocol === 'https:' || url.protocol === 'http:') && url.hostname.includes('.') ? url : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Gets the URLs to probe for a file, most specific first: the file itself when the URL points to it,
+ * the directory of the URL, then the common locations at the root of the site
+ * @param url URL of the website or its docs
+ * @param fileName "llms.txt" or "llms-full.txt"
+ */
+export function getDiscoveryUrls(url: URL, fileName: string): string[] {
+  const urls: string[] = []
+  const directory = url.pathname.endsWith('.txt')
+    ? url.pathname.slice(0, url.pathname.lastIndexOf('/') + 1)
+    : url.pathname.replace(/\/*$/, '/')
+
+  if (url.pathname.endsWith(`/${fileName}`)) {
+    urls.push(`${url.origin}${url.pathname}`)
+  }
+  for (const candidate of [directory, ...COMMON_DIRECTORIES]) {
+    const candidateUrl = `${url.origin}${candidate}${fileName}`
+    if (!urls.includes(candidateUrl)) {
+      urls.push(candidateUrl)
+    }
+  }
+  return urls
+}
+
+/**
+ * Looks for a website's llms.txt and llms-full.txt at the usual locations and reads the title and
+ * summary of the llms.txt. Probes run in parallel and the most specific location found wins.
+ * @param url URL of the website or its docs
+ * @param signal Aborts the probes
+ */
+export async function discoverLlmsTxt(url: URL, signal?: AbortSignal): Promise<DiscoveredLlmsTxt> {
+  const llmsTxtUrls = getDiscoveryUrls(url, 'llms.txt')
+  const llmsTxtHeads = await Promise.all(llmsTxtUrls.map(candidate => probeTextFile(candidate, signal)))
+  // Sites that answer every path with the same page are not publishing an llms.txt
+  const index = llmsTxtHeads.findIndex(head => head !== undefined && /^#\s/m.test(head))
+  const llmsTxtUrl = index === -1 ? undefined : llmsTxtUrls[index]
+
+  // Look for llms-full.txt next to the llms.txt first
+  const llmsFullTxtUrls = getDiscoveryUrls(llmsTxtUrl ? new URL(llmsTxtUrl) : url, 'llms-full.txt')
+  const llmsFullTxtHeads = await Promise.all(llmsFullTxtUrls.map(candidate => probeTextFile(candidate, signal)))
+  const fullIndex = llmsFullTxtHeads.findIndex(head => head !== undefined && head.trim() !== '')
+
+  const document = index === -1 ? undefined : parseLlmsTxt(llmsTxtHeads[index] ?? '')
+  return {
+    domain: url.origin,
+    llmsTxtUrl,
+    llmsFullTxtUrl: fullIndex === -1 ? undefined : llmsFullTxtUrls[fullIndex],
+    title: document?.title,
+    summary: document?.summary
+  }
+}
+
+/**
+ * Reads the start of a text file
+ * @returns The start of the file, or undefined when it does not exist or is an HTML page
+ */
+async function probeTextFile(url: string, signal?: AbortSignal): Promise<string | undefined> {
+  try {
+    const response = await axios.get<Readable>(url, {
+      responseType: 'stream',
+      timeout: PROBE_TIMEOUT_MS,
+      signal,
+      headers: {
+        Accept: 'text/plain, text/markdown;q=0.9, */*;q=0.5',
+        Range: `bytes=0-${PROBE_BYTES - 1}`
+      }
+    })
+    if (/html/i.test(String(response.headers['content-type'] ?? ''))) {
+      response.data.destroy()
+      return undefined
+    }
+    const head = await readStreamHead(response.data, PROBE_BYTES)
+    return /^\s*</.test(head) ? undefined : head
+  } catch (error) {
+    console.log(`No text file at ${url}:`, error instanceof Error ? error.message : error)
+    return undefined
+  }
+}
+
+/**
+ * Reads a stream up to a number of bytes, then closes it
+ */
+export function readStreamHead(stream: Readable, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let length = 0
+    const finish = () => {
+      stream.destroy()
+      resolve(Buffer.concat(chunks).subarray(0, maxBytes).toString('utf8'))
+    }
+    stream.on('data', (chunk: Buffer) => {
+      chunks.push(chunk)
+      length += chunk.length
+      if (length >= maxBytes) {
+        finish()
+      }
+    })
+    stream.on('end', finish)
+    stream.on('error', reject)
+  })
+}
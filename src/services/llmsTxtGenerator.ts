@@ -0,0 +1,253 @@
+import * as vscode from 'vscode'
+import * as path from 'node:path'
+import type { LlmsTxtDocument, LlmsTxtLink } from '../types'
+import { parseLlmsTxt, serializeLinkEntry } from './llmsTxtParser'
+
+/**
+ * A markdown document found in the workspace
+ */
+export interface WorkspaceDoc {
+  uri: vscode.Uri
+  /** Path relative to the workspace folder, with forward slashes */
+  relativePath: string
+  title: string
+  description?: string
+}
+
+/**
+ * What a scan of the workspace found to build an llms.txt from
+ */
+export interface WorkspaceScan {
+  name: string
+  summary?: string
+  homepage?: string
+  /** Markdown documents grouped by the folder containing them ('.' for the root) */
+  folders: Map<string, WorkspaceDoc[]>
+}
+
+/**
+ * Choices made when generating, remembered between runs
+ */
+export interface GeneratorSettings {
+  /** Maps folders to the title of the section listing their documents */
+  sections: Record<string, string>
+  /** Absolute URL the document paths are appended to, as llms.txt links should be absolute */
+  baseUrl: string
+  includeFullTxt: boolean
+}
+
+const DOC_GLOB = '**/*.{md,mdx}'
+const EXCLUDE_GLOB = '**/{node_modules,.git,dist,out,build,coverage,.next,.vscode-test}/**'
+const GENERATED_FILES = new Set(['llms.txt', 'llms-full.txt'])
+
+/**
+ * Scans a workspace folder for package metadata, the README and markdown docs
+ * @param folder Workspace folder to scan
+ */
+export async function scanWorkspace(folder: vscode.WorkspaceFolder): Promise<WorkspaceScan> {
+  const scan: WorkspaceScan = { name: folder.name, folders: new Map() }
+
+  const packageJson = await readText(vscode.Uri.joinPath(folder.uri, 'package.json'))
+  if (packageJson) {
+    try {
+      const metadata = JSON.parse(packageJson) as { name?: string; description?: string; homepage?: string }
+      scan.name = metadata.name ?? scan.name
+      scan.summary = metadata.description
+      // Homepages often carry a fragment, e.g. "https://github.com/owner/repo#readme"
+      scan.homepage = metadata.homepage ? normalizeBaseUrl(metadata.homepage) : undefined
+    } catch (error) {
+      console.log('Ignoring unreadable package.json:', error)
+    }
+  }
+
+  const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, DOC_GLOB), EXCLUDE_GLOB)
+  for (const uri of files) {
+    const relativePath = path.posix.relative(folder.uri.path, uri.path)
+    if (GENERATED_FILES.has(path.posix.basename(relativePath))) {
+      continue
+    }
+
+    const content = (await readText(uri)) ?? ''
+    const doc: WorkspaceDoc = { uri, relativePath, ...extractDocInfo(content, relativePath) }
+    const directory = path.posix.dirname(relativePath)
+    scan.folders.set(directory, [...(scan.folders.get(directory) ?? []), doc])
+
+    // Use the README's first paragraph as the summary when package.json has none
+    if (!scan.summary && /^readme\.mdx?$/i.test(relativePath)) {
+      scan.summary = extractFirstParagraph(content)
+    }
+  }
+
+  for (const docs of scan.folders.values()) {
+    docs.sort((a, b) => a.relativePath.localeCompare(b.relativePath))
+  }
+  return scan
+}
+
+/**
+ * Suggests a section title for a folder, e.g. "docs/getting-started" becomes "Getting Started"
+ */
+export function suggestSectionTitle(folder: string): string {
+  if (folder === '.') {
+    return 'Docs'
+  }
+  return path.posix
+    .basename(folder)
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Builds an llms.txt document from the scanned docs of the mapped folders
+ * @param scan Result of {@link scanWorkspace}
+ * @param settings Folder to section mapping and base URL
+ */
+export function buildLlmsTxt(scan: WorkspaceScan, settings: GeneratorSettings): LlmsTxtDocument {
+  const sections = new Map<string, LlmsTxtLink[]>()
+
+  for (const [folder, title] of Object.entries(settings.sections)) {
+    const links = (scan.folders.get(folder) ?? []).map(doc => ({
+      title: doc.title,
+      url: getDocUrl(doc, settings.baseUrl),
+      notes: doc.description,
+      line: -1
+    }))
+    sections.set(title, [...(sections.get(title) ?? []), ...links])
+  }
+
+  return {
+    title: scan.name,
+    summary: scan.summary,
+    sections: Array.from(sections.entries())
+      .map(([title, links]) => ({ title, optional: title.toLowerCase() === 'optional', links, line: -1 }))
+      // The Optional section goes last
+      .sort((a, b) => Number(a.optional) - Number(b.optional))
+  }
+}
+
+/**
+ * Merges a generated document into an existing llms.txt without touching hand edits:
+ * links whose URL is already listed are skipped, new links are appended to the
+ * matching section, and new sections are added before the Optional section.
+ * @param existing Current llms.txt content
+ * @param generated Freshly generated document
+ * @returns The merged content and the number of links added
+ */
+export function mergeLlmsTxt(existing: string, generated: LlmsTxtDocument): { content: string; added: number } {
+  const current = parseLlmsTxt(existing)
+  const lines = existing.replace(/\s+$/, '').split(/\r?\n/)
+  const knownUrls = new Set(current.sections.flatMap(section => section.links.map(link => link.url)))
+  const insertions: { line: number; text: string[] }[] = []
+  const newSections: string[][] = []
+  let added = 0
+
+  for (const section of generated.sections) {
+    const links = section.links.filter(link => !knownUrls.has(link.url))
+    if (links.length === 0) {
+      continue
+    }
+    added += links.length
+
+    const existingSection = current.sections.find(
+      candidate => candidate.title.toLowerCase() === section.title.toLowerCase()
+    )
+    if (existingSection) {
+      // Insert after the section's last link, or right after its heading
+      const lastLink = existingSection.links[existingSection.links.length - 1]
+      const line = lastLink ? lastLink.line + 1 : existingSection.line + 1
+      const text = links.map(serializeLinkEntry)
+      insertions.push({ line, text: lastLink ? text : ['', ...text] })
+    } else {
+      newSections.push([`## ${section.title}`, '', ...links.map(serializeLinkEntry)])
+    }
+  }
+
+  // Apply from the bottom up so earlier line numbers stay valid
+  for (const insertion of insertions.sort((a, b) => b.line - a.line)) {
+    lines.splice(insertion.line, 0, ...insertion.text)
+  }
+
+  if (newSections.length > 0) {
+    const optionalHeading = lines.findIndex(line => /^##\s+optional\s*$/i.test(line))
+    const blocks = newSections.flatMap(section => [...section, ''])
+    if (optionalHeading === -1) {
+      lines.push('', ...blocks.slice(0, -1))
+    } else {
+      lines.splice(optionalHeading, 0, ...blocks)
+    }
+  }
+
+  return { content: `${lines.join('\n')}\n`, added }
+}
+
+/**
+ * Builds an llms-full.txt by concatenating the content of every mapped document
+ * @param scan Result of {@link scanWorkspace}
+ * @param settings Folder to section mapping and base URL
+ */
+export async function buildLlmsFullTxt(scan: WorkspaceScan, settings: GeneratorSettings): Promise<string> {
+  const blocks = [`# ${scan.name}`]
+  if (scan.summary) {
+    blocks.push(`> ${scan.summary}`)
+  }
+
+  for (const folder of Object.keys(settings.sections)) {
+    for (const doc of scan.folders.get(folder) ?? []) {
+      const content = stripFrontmatter((await readText(doc.uri)) ?? '').trim()
+      blocks.push(`---\n\nSource: ${getDocUrl(doc, settings.baseUrl)}\n\n${content}`)
+    }
+  }
+
+  return `${blocks.join('\n\n')}\n`
+}
+
+function getDocUrl(doc: WorkspaceDoc, baseUrl: string): string {
+  const encodedPath = doc.relativePath.split('/').map(encodeURIComponent).join('/')
+  return `${normalizeBaseUrl(baseUrl)}/${encodedPath}`
+}
+
+/**
+ * Removes the query, fragment and trailing slashes of a base URL, so paths can be appended to it
+ */
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/[?#].*$/, '').replace(/\/+$/, '')
+}
+
+/**
+ * Gets a document's title and description from its frontmatter, first H1 or file name
+ */
+function extractDocInfo(content: string, relativePath: string): Pick<WorkspaceDoc, 'title' | 'description'> {
+  const frontmatter = /^---\r?\n([\s\S]*?)\r?\n---/.exec(content)?.[1] ?? ''
+  const field = (name: string) =>
+    new RegExp(`^${name}:\\s*(.+)$`, 'm').exec(frontmatter)?.[1].trim().replace(/^(['"])(.*)\1$/, '$2')
+
+  const heading = /^#\s+(.+?)\s*#*\s*$/m.exec(stripFrontmatter(content))?.[1]
+  const fileName = path.posix.basename(relativePath).replace(/\.mdx?$/i, '')
+
+  return {
+    title: field('title') ?? heading ?? fileName,
+    description: field('description')
+  }
+}
+
+function extractFirstParagraph(content: string): string | undefined {
+  const paragraph = stripFrontmatter(content)
+    .split(/\r?\n\s*\r?\n/)
+    .map(block => block.trim())
+    .find(block => block && !/^(#|!\[|<|\[!\[|>|```|-|\*|\|)/.test(block))
+  return paragraph?.replace(/\s+/g, ' ')
+}
+
+function stripFrontmatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '')
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+  } catch {
+    return undefined
+  }
+}
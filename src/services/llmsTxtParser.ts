@@ -0,0 +1,131 @@
+import type { LlmsTxtDocument, LlmsTxtLink, LlmsTxtSection } from '../types'
+
+/**
+ * Matches a link list entry: `- [title](url)` with optional `: notes`
+ */
+export const LINK_ENTRY_PATTERN = /^\s*[-*+]\s+\[([^\]]+)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)\s*(?::\s*(.*))?$/
+
+const H1_PATTERN = /^#\s+(.+?)\s*#*\s*$/
+const H2_PATTERN = /^##\s+(.+?)\s*#*\s*$/
+const BLOCKQUOTE_PATTERN = /^>\s?(.*)$/
+
+/**
+ * Parses the content of an llms.txt file into a structured document.
+ * The format is an H1 title, an optional blockquote summary, optional details,
+ * then H2 sections containing link lists.
+ * @see https://llmstxt.org
+ * @param content Raw llms.txt content
+ */
+export function parseLlmsTxt(content: string): LlmsTxtDocument {
+  const lines = content.split(/\r?\n/)
+  const document: LlmsTxtDocument = { sections: [] }
+  const summaryLines: string[] = []
+  const detailLines: string[] = []
+  let currentSection: LlmsTxtSection | undefined
+  let inSummary = false
+
+  lines.forEach((line, index) => {
+    const h2 = H2_PATTERN.exec(line)
+    if (h2) {
+      inSummary = false
+      currentSection = {
+        title: h2[1],
+        optional: h2[1].trim().toLowerCase() === 'optional',
+        links: [],
+        line: index
+      }
+      document.sections.push(currentSection)
+      return
+    }
+
+    if (currentSection) {
+      const link = parseLinkEntry(line, index)
+      if (link) {
+        currentSection.links.push(link)
+      }
+      return
+    }
+
+    // Preamble: title, summary and details before the first section
+    const h1 = H1_PATTERN.exec(line)
+    if (h1 && document.title === undefined) {
+      document.title = h1[1]
+      inSummary = true
+      return
+    }
+
+    const quote = BLOCKQUOTE_PATTERN.exec(line)
+    if (quote && inSummary) {
+      summaryLines.push(quote[1].trim())
+      return
+    }
+
+    if (line.trim()) {
+      // The summary can only directly follow the title
+      inSummary = false
+    }
+
+    if (!inSummary) {
+      detailLines.push(line)
+    }
+  })
+
+  if (summaryLines.length > 0) {
+    document.summary = summaryLines.join(' ').trim()
+  }
+  const details = detailLines.join('\n').trim()
+  if (details) {
+    document.details = details
+  }
+
+  return document
+}
+
+/**
+ * Parses a single link list entry
+ * @param line Line of text to parse
+ * @param lineNumber Zero-based line number, recorded on the link
+ * @returns The link, or undefined if the line is not a well-formed entry
+ */
+export function parseLinkEntry(line: string, lineNumber: number): LlmsTxtLink | undefined {
+  const match = LINK_ENTRY_PATTERN.exec(line)
+  if (!match) {
+    return undefined
+  }
+
+  const notes = match[3]?.trim()
+  return {
+    title: match[1].trim(),
+    url: match[2],
+    notes: notes || undefined,
+    line: lineNumber
+  }
+}
+
+/**
+ * Serializes a document back to the llms.txt format
+ * @param document Document to serialize
+ */
+export function serializeLlmsTxt(document: LlmsTxtDocument): string {
+  const blocks: string[] = [`# ${document.title ?? 'Untitled'}`]
+
+  if (document.summary) {
+    blocks.push(`> ${document.summary}`)
+  }
+  if (document.details) {
+    blocks.push(document.details)
+  }
+  for (const section of document.sections) {
+    blocks.push([`## ${section.title}`, '', ...section.links.map(serializeLinkEntry)].join('\n'))
+  }
+
+  return `${blocks.join('\n\n')}\n`
+}
+
+/**
+ * Serializes a link list entry, e.g. `- [Title](https://example.com/doc.md): notes`
+ */
+export function serializeLinkEntry(link: Pick<LlmsTxtLink, 'title' | 'url' | 'notes'>): string {
+  const title = link.title.replace(/[[\]]/g, '')
+  return `- [${title}](${link.url})${link.notes ? `: ${link.notes}` : ''}`
+}
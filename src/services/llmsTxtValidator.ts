@@ -0,0 +1,237 @@
+import type { LlmsFileKind } from '../types'
+import { LINK_ENTRY_PATTERN } from './llmsTxtParser'
+
+export type ValidationIssueCode =
+  | 'missing-h1'
+  | 'misplaced-blockquote'
+  | 'malformed-link'
+  | 'duplicate-section'
+  | 'relative-url'
+  | 'empty-section'
+
+/**
+ * An edit that fixes a validation issue, replacing whole lines
+ */
+export interface ValidationFix {
+  title: string
+  /** First zero-based line to replace */
+  startLine: number
+  /** Line after the last one to replace; equal to `startLine` to insert */
+  endLine: number
+  newText: string
+}
+
+/**
+ * A violation of the llms.txt format
+ */
+export interface ValidationIssue {
+  code: ValidationIssueCode
+  message: string
+  severity: 'error' | 'warning'
+  /** Zero-based line of the issue */
+  line: number
+  startColumn: number
+  endColumn: number
+  fix?: ValidationFix
+}
+
+const H1_PATTERN = /^#\s+\S/
+const H2_PATTERN = /^##\s+(.+?)\s*#*\s*$/
+const BLOCKQUOTE_PATTERN = /^>/
+const LIST_ITEM_PATTERN = /^\s*[-*+]\s+/
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z0-9+.-]*:/i
+
+/**
+ * Checks the content of an llms.txt file against the format.
+ * llms-full.txt files are free-form markdown, so only the title is checked for them.
+ * @see https://llmstxt.org
+ * @param content Raw file content
+ * @param kind Which file the content comes from
+ */
+export function validateLlmsTxt(content: string, kind: LlmsFileKind = 'llms.txt'): ValidationIssue[] {
+  const lines = content.split(/\r?\n/)
+  const issues: ValidationIssue[] = []
+
+  const firstContentLine = lines.findIndex(line => line.trim().length > 0)
+  if (firstContentLine === -1 || !H1_PATTERN.test(lines[firstContentLine])) {
+    const line = Math.max(firstContentLine, 0)
+    issues.push({
+      code: 'missing-h1',
+      message: 'An llms.txt file must start with an H1 title, e.g. "# Project Name"',
+      severity: 'error',
+      line,
+      startColumn: 0,
+      endColumn: lines[line]?.length ?? 0,
+      fix: { title: 'Add an H1 title', startLine: 0, endLine: 0, newText: '# Title\n\n' }
+    })
+  }
+
+  if (kind === 'llms-full.txt') {
+    return issues
+  }
+
+  const sectionTitles = new Map<string, number>()
+  let section: { title: string; line: number; hasContent: boolean } | undefined
+  let hasTitle = false
+  // The summary blockquote may only follow the H1, separated by blank lines
+  let blockquoteAllowed = false
+
+  const closeSection = () => {
+    if (section && !section.hasContent) {
+      issues.push({
+        code: 'empty-section',
+        message: `Section "${section.title}" is empty`,
+        severity: 'warning',
+        line: section.line,
+        startColumn: 0,
+        endColumn: lines[section.line].length,
+        fix: { title: `Remove empty section "${section.title}"`, startLine: section.line, endLine: section.line + 1, newText: '' }
+      })
+    }
+  }
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return
+    }
+
+    if (!hasTitle && !section && H1_PATTERN.test(line)) {
+      hasTitle = true
+      blockquoteAllowed = true
+      return
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      if (section) {
+        section.hasContent = true
+      }
+      if (!blockquoteAllowed) {
+        issues.push({
+          code: 'misplaced-blockquote',
+          message: 'The summary blockquote must directly follow the H1 title',
+          severity: 'warning',
+          line: index,
+          startColumn: 0,
+          endColumn: line.length
+        })
+      }
+      return
+    }
+    blockquoteAllowed = false
+
+    const h2 = H2_PATTERN.exec(line)
+    if (h2) {
+      closeSection()
+      const title = h2[1]
+      const key = title.toLowerCase()
+      const firstLine = sectionTitles.get(key)
+      if (firstLine !== undefined) {
+        issues.push({
+          code: 'duplicate-section',
+          message: `Section "${title}" is already defined on line ${firstLine + 1}`,
+          severity: 'warning',
+          line: index,
+          startColumn: 0,
+          endColumn: line.length
+        })
+      } else {
+        sectionTitles.set(key, index)
+      }
+      section = { title, line: index, hasContent: false }
+      return
+    }
+
+    if (!section) {
+      return
+    }
+    section.hasContent = true
+
+    if (!LIST_ITEM_PATTERN.test(line)) {
+      return
+    }
+
+    const link = LINK_ENTRY_PATTERN.exec(line)
+    if (!link) {
+      issues.push({
+        code: 'malformed-link',
+        message: 'List entries must be markdown links: "- [Title](https://example.com/doc.md): optional notes"',
+        severity: 'error',
+        line: index,
+        startColumn: line.length - line.trimStart().length,
+        endColumn: line.length,
+        fix: fixMalformedLink(line, index)
+      })
+      return
+    }
+
+    const url = link[2]
+    if (!ABSOLUTE_URL_PATTERN.test(url)) {
+      const startColumn = line.indexOf(url)
+      issues.push({
+        code: 'relative-url',
+        message: `"${url}" is a relative URL; use an absolute URL so the link works outside the site`,
+        severity: 'warning',
+        line: index,
+        startColumn,
+        endColumn: startColumn + url.length
+      })
+    }
+  })
+  closeSection()
+
+  return issues.sort((a, b) => a.line - b.line)
+}
+
+/**
+ * Rewrites a list entry holding a bare URL, e.g. "- https://example.com/guide.md: notes",
+ * into a markdown link
+ */
+function fixMalformedLink(line: string, lineNumber: number): ValidationFix | undefined {
+  const match = /^(\s*[-*+]\s+)<?(https?:\/\/[^\s>]+?)>?(?:\s*:\s*(.*))?\s*$/.exec(line)
+  if (!match) {
+    return undefined
+  }
+
+  const [, marker, url, notes] = match
+  const title = decodePathSegment(url.replace(/\/+$/, '').split('/').pop() ?? url).replace(/\.(md|mdx|txt|html?)$/i, '')
+  return {
+    title: 'Convert to a markdown link',
+    startLine: lineNumber,
+    endLine: lineNumber + 1,
+    newText: `${marker}[${title || url}](${url})${notes ? `: ${notes}` : ''}\n`
+  }
+}
+
+/**
+ * Decodes a URL path segment, keeping it as written when it holds an invalid escape such as "%zz"
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+/**
+ * Formats validation issues as a markdown report
+ * @param name Name of the validated website or file
+ * @param url Location of the validated file
+ * @param issues Issues found by {@link validateLlmsTxt}
+ */
+export function formatValidationReport(name: string, url: string, issues: ValidationIssue[]): string {
+  const lines = [`# LLMS.txt validation: ${name}`, '', url, '']
+
+  if (issues.length === 0) {
+    lines.push('No issues found.')
+    return `${lines.join('\n')}\n`
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error').length
+  lines.push(`Found ${errors} error(s) and ${issues.length - errors} warning(s).`, '')
+  lines.push('| Line | Severity | Rule | Issue |', '| ---: | --- | --- | --- |')
+  for (const issue of issues) {
+    lines.push(`| ${issue.line + 1} | ${issue.severity} | \`${issue.code}\` | ${issue.message.replace(/\|/g, '\\|')} |`)
+  }
+  return `${lines.join('\n')}\n`
+}
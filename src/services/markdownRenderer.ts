@@ -0,0 +1,106 @@
+import MarkdownIt from 'markdown-it'
+
+/**
+ * A heading of rendered markdown, listed in the preview's sidebar
+ */
+export interface RenderedHeading {
+  /** ID of the heading element, to scroll to it */
+  id: string
+  title: string
+  level: number
+  /** Zero-based line of the heading in the markdown, to copy its section */
+  line: number
+}
+
+export interface RenderedMarkdown {
+  html: string
+  headings: RenderedHeading[]
+}
+
+// Links to these files open in the preview rather than in the browser
+const DOC_PATH_PATTERN = /\.(md|mdx|markdown|txt)$/i
+
+// Raw HTML is escaped rather than rendered, as the content comes from third-party sites
+const markdown = new MarkdownIt({ html: false, linkify: true, typographer: false })
+
+/**
+ * Renders markdown to HTML with IDs on the headings. Relative links and images are resolved against
+ * the URL of the document; links to other markdown and text files are marked with `data-doc`.
+ * @param content Markdown content, such as an llms.txt
+ * @param baseUrl URL the content was fetched from
+ */
+export function renderMarkdown(content: string, baseUrl: string): RenderedMarkdown {
+  const tokens = markdown.parse(content, {})
+  const headings: RenderedHeading[] = []
+  const usedIds = new Map<string, number>()
+
+  tokens.forEach((token, index) => {
+    if (token.type === 'heading_open') {
+      const title = tokens[index + 1]?.children?.map(child => child.content).join('') ?? ''
+      const slug = slugify(title) || 'section'
+      const count = usedIds.get(slug) ?? 0
+      usedIds.set(slug, count + 1)
+      const id = count === 0 ? slug : `${slug}-${count}`
+      const line = token.map?.[0] ?? 0
+      token.attrSet('id', id)
+      token.attrSet('data-line', String(line))
+      headings.push({ id, title, level: Number(token.tag.slice(1)), line })
+    }
+
+    for (const child of token.children ?? []) {
+      if (child.type === 'link_open') {
+        resolveLink(child, 'href', baseUrl)
+      } else if (child.type === 'image') {
+        resolveLink(child, 'src', baseUrl)
+      }
+    }
+  })
+
+  return { html: markdown.renderer.render(tokens, markdown.options, {}), headings }
+}
+
+/**
+ * Whether a URL points to a markdown or text document the preview can show
+ */
+export function isDocUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url)
+    return (parsed.protocol === 'https:' || parsed.protocol === 'http:') && DOC_PATH_PATTERN.test(parsed.pathname)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return markdown.utils.escapeHtml(text)
+}
+
+function resolveLink(token: MarkdownIt.Token, attribute: string, baseUrl: string): void {
+  const value = token.attrGet(attribute)
+  if (!value || value.startsWith('#')) {
+    return
+  }
+  try {
+    const resolved = new URL(value, baseUrl).toString()
+    token.attrSet(attribute, resolved)
+    if (attribute === 'href' && isDocUrl(resolved)) {
+      token.attrSet('data-doc', '')
+    }
+  } catch {
+    // Leave links that are not URLs as written
+  }
+}
+
+/**
+ * Turns a heading into an ID, e.g. "getting-started" for "Getting Started"
+ */
+function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-')
+}
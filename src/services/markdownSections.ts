@@ -0,0 +1,69 @@
+/**
+ * A heading and the content under it, up to the next heading of the same or a higher level
+ */
+export interface MarkdownSection {
+  title: string
+  level: number
+  /** Zero-based line of the heading */
+  line: number
+  /** The heading line and its content */
+  text: string
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+
+/**
+ * Splits markdown into sections, one per heading, skipping fenced code blocks.
+ * Sections nest: an H2's text includes its H3 subsections.
+ * @param content Markdown content, such as an llms-full.txt
+ */
+export function splitMarkdownSections(content: string): MarkdownSection[] {
+  const lines = content.split(/\r?\n/)
+  const headings: { title: string; level: number; line: number }[] = []
+  let inFence = false
+
+  lines.forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence
+      return
+    }
+    const match = !inFence && HEADING_PATTERN.exec(line)
+    if (match) {
+      headings.push({ title: match[2], level: match[1].length, line: index })
+    }
+  })
+
+  return headings.map((heading, index) => {
+    const next = headings.slice(index + 1).find(candidate => candidate.level <= heading.level)
+    const end = next ? next.line : lines.length
+    return { ...heading, text: lines.slice(heading.line, end).join('\n').trimEnd() }
+  })
+}
+
+/**
+ * Finds a section by title: an exact match first, then the first title containing the query,
+ * both ignoring case
+ * @param content Markdown content
+ * @param title Title, or part of the title, of the section to find
+ */
+export function findMarkdownSection(content: string, title: string): MarkdownSection | undefined {
+  const query = title.trim().toLowerCase()
+  const sections = splitMarkdownSections(content)
+  return (
+    sections.find(section => section.title.toLowerCase() === query) ??
+    sections.find(section => section.title.toLowerCase().includes(query))
+  )
+}
+
+/**
+ * Truncates text to a maximum number of characters, noting how much was left out
+ * @param text Text to truncate
+ * @param maxCharacters Maximum length of the returned text, before the note
+ */
+export function truncateText(text: string, maxCharacters: number): string {
+  if (text.length <= maxCharacters) {
+    return text
+  }
+  return `${text.slice(0, maxCharacters)}\n\n[Truncated: showing ${maxCharacters} of ${text.length} characters]`
+}
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode'
+import * as path from 'node:path'
+import type { RegistrySource } from '../types'
+import { DEFAULT_REGISTRY_SOURCE, isRemoteLocation } from './websiteService'
+
+/**
+ * An MCP client and where it reads workspace server configuration from
+ */
+export interface McpClientConfig {
+  label: string
+  /** Configuration file, relative to the workspace folder */
+  file: string
+  /** Property holding the servers in that file */
+  serversKey: 'servers' | 'mcpServers'
+}
+
+export const MCP_CLIENTS: McpClientConfig[] = [
+  { label: 'VS Code', file: '.vscode/mcp.json', serversKey: 'servers' },
+  { label: 'Cursor', file: '.cursor/mcp.json', serversKey: 'mcpServers' },
+  { label: 'Other MCP clients', file: '.mcp.json', serversKey: 'mcpServers' }
+]
+
+const SERVER_NAME = 'llms-txt'
+const SERVER_SCRIPT = 'mcpServer.js'
+
+/**
+ * Gets where the server script is installed. The bundled copy lives in a versioned
+ * extension folder, so it is copied to global storage to give configs a stable path.
+ */
+function getInstalledServerUri(context: vscode.ExtensionContext): vscode.Uri {
+  return vscode.Uri.joinPath(context.globalStorageUri, 'mcp', SERVER_SCRIPT)
+}
+
+/**
+ * Copies the bundled server script to its stable location
+ * @returns Path of the installed script
+ */
+export async function installMcpServer(context: vscode.ExtensionContext): Promise<string> {
+  const target = getInstalledServerUri(context)
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, '..'))
+  await vscode.workspace.fs.copy(vscode.Uri.joinPath(context.extensionUri, 'dist', SERVER_SCRIPT), target, {
+    overwrite: true
+  })
+  return target.fsPath
+}
+
+/**
+ * Updates the installed server script after the extension is updated, if it was installed before
+ */
+export async function refreshInstalledMcpServer(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    await vscode.workspace.fs.stat(getInstalledServerUri(context))
+  } catch {
+    return
+  }
+  await installMcpServer(context)
+}
+
+/**
+ * Gets the paths an entry written by {@link writeMcpConfig} would hold that only exist on this machine:
+ * the installed server script, and registry files outside the workspace folder
+ */
+export function getMachineSpecificPaths(
+  workspaceFolder: vscode.WorkspaceFolder,
+  serverPath: string,
+  sources: RegistrySource[]
+): string[] {
+  const registryPaths = getRegistryArgs(workspaceFolder, sources).filter(
+    (arg, index, args) => args[index - 1] === '--registry' && path.isAbsolute(arg)
+  )
+  return [serverPath, ...registryPaths]
+}
+
+/**
+ * Adds or replaces the llms-txt server in a client's workspace configuration file
+ * @param workspaceFolder Folder holding the configuration
+ * @param client Client to configure
+ * @param serverPath Path of the installed server script
+ * @param sources Registries the server should load
+ * @returns URI of the written configuration file
+ */
+export async function writeMcpConfig(
+  workspaceFolder: vscode.WorkspaceFolder,
+  client: McpClientConfig,
+  serverPath: string,
+  sources: RegistrySource[]
+): Promise<vscode.Uri> {
+  const uri = vscode.Uri.joinPath(workspaceFolder.uri, client.file)
+
+  let config: Record<string, unknown> = {}
+  try {
+    config = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'))
+  } catch (error) {
+    if (!(error instanceof vscode.FileSystemError)) {
+      throw new Error(`${client.file} is not valid JSON; add the server manually`)
+    }
+  }
+
+  const registryArgs = getRegistryArgs(workspaceFolder, sources)
+
+  const servers = (config[client.serversKey] ?? {}) as Record<string, unknown>
+  servers[SERVER_NAME] = {
+    ...(client.serversKey === 'servers' ? { type: 'stdio' } : {}),
+    command: 'node',
+    args: [serverPath, ...registryArgs]
+  }
+  config[client.serversKey] = servers
+
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(`${JSON.stringify(config, null, 2)}\n`, 'utf8'))
+  return uri
+}
+
+/**
+ * Gets the `--registry` arguments for the sources. Files inside the workspace folder are given relative
+ * to it, as MCP clients start workspace servers from there, so the entry works wherever the workspace is cloned.
+ */
+function getRegistryArgs(workspaceFolder: vscode.WorkspaceFolder, sources: RegistrySource[]): string[] {
+  if (sources.length === 1 && sources[0].location === DEFAULT_REGISTRY_SOURCE.location) {
+    return []
+  }
+  return sources.flatMap(source => {
+    if (isRemoteLocation(source.location)) {
+      return ['--registry', source.location]
+    }
+    const relative = path.relative(workspaceFolder.uri.fsPath, source.location)
+    const inWorkspace = relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)
+    return ['--registry', inWorkspace ? `./${relative.split(path.sep).join('/')}` : source.location]
+  })
+}
@@ -0,0 +1,214 @@
+import * as vscode from 'vscode'
+import { createHash } from 'node:crypto'
+import type { LlmsFileKind, PinnedFile, ProjectDocsLock, Website } from '../types'
+import { fetchTxtContent, getDomainKey } from './websiteService'
+
+/**
+ * Name of the manifest/lock file written to the docs folder
+ */
+export const LOCK_FILE_NAME = 'llms-lock.json'
+
+const DEFAULT_DOCS_FOLDER = 'llms-docs'
+
+/**
+ * Outcome of pinning or updating a single file
+ */
+export interface PinResult {
+  siteName: string
+  kind: LlmsFileKind
+  uri: vscode.Uri
+  status: 'added' | 'changed' | 'unchanged' | 'failed'
+  error?: string
+}
+
+/**
+ * Pins llms.txt files into a workspace folder and records them in a lock file,
+ * so teammates cloning the repository get the same docs
+ */
+export class ProjectDocsService {
+  private workspaceFolder: vscode.WorkspaceFolder
+
+  constructor(workspaceFolder: vscode.WorkspaceFolder) {
+    this.workspaceFolder = workspaceFolder
+  }
+
+  /**
+   * Gets the folder pinned docs are written to, from `llms-txt.project.docsFolder`
+   */
+  getDocsFolderUri(): vscode.Uri {
+    const folder = vscode.workspace
+      .getConfiguration('llms-txt', this.workspaceFolder.uri)
+      .get<string>('project.docsFolder', DEFAULT_DOCS_FOLDER)
+    return vscode.Uri.joinPath(this.workspaceFolder.uri, folder || DEFAULT_DOCS_FOLDER)
+  }
+
+  /**
+   * Reads the lock file, or returns an empty one if the workspace has none
+   * @throws When the lock file exists but cannot be parsed, e.g. with merge conflict markers,
+   * so that it is not overwritten with an empty one
+   */
+  async readLock(): Promise<ProjectDocsLock> {
+    let data: Uint8Array
+    try {
+      data = await vscode.workspace.fs.readFile(this.getLockUri())
+    } catch (error) {
+      if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+        return { version: 1, sites: {} }
+      }
+      throw error
+    }
+
+    let lock: Partial<ProjectDocsLock>
+    try {
+      lock = JSON.parse(Buffer.from(data).toString('utf8')) as Partial<ProjectDocsLock>
+    } catch (error) {
+      throw new Error(
+        `${vscode.workspace.asRelativePath(this.getLockUri())} is not valid JSON, fix it before adding or updating docs: ${error instanceof Error ? error.message : error}`
+      )
+    }
+    if (typeof lock !== 'object' || lock === null || (lock.sites !== undefined && typeof lock.sites !== 'object')) {
+      throw new Error(`${vscode.workspace.asRelativePath(this.getLockUri())} is not a valid lock file`)
+    }
+    return { version: 1, sites: lock.sites ?? {} }
+  }
+
+  /**
+   * Whether the workspace has pinned any docs
+   */
+  async hasLock(): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(this.getLockUri())
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Downloads a website's llms.txt files into the docs folder and records them in the lock file
+   * @param website Website to pin
+   * @param kinds Files to download
+   */
+  async pin(website: Website, kinds: LlmsFileKind[]): Promise<PinResult[]> {
+    const lock = await this.readLock()
+    const key = getDomainKey(website.domain)
+    const site = lock.sites[key] ?? { name: website.name, domain: website.domain, files: {} }
+    site.name = website.name
+
+    const results: PinResult[] = []
+    for (const kind of kinds) {
+      const url = kind === 'llms.txt' ? website.llmsTxtUrl : website.llmsFullTxtUrl
+      if (!url) {
+        continue
+      }
+      results.push(await this.download(site.name, kind, url, getPinnedFilePath(key, kind), site.files, site.files[kind]))
+    }
+
+    lock.sites[key] = site
+    await this.writeLock(lock)
+    return results
+  }
+
+  /**
+   * Downloads every pinned file again from its recorded URL.
+   * The paths recorded in the lock file are not trusted, as it may come from a cloned repository:
+   * each file is written to the path derived from its site and kind, inside the docs folder.
+   * @returns One result per pinned file, telling which ones changed
+   */
+  async update(): Promise<PinResult[]> {
+    const lock = await this.readLock()
+    const results: PinResult[] = []
+
+    for (const [key, site] of Object.entries(lock.sites)) {
+      for (const [kind, file] of Object.entries(site.files ?? {}) as [string, PinnedFile][]) {
+        if (!isLlmsFileKind(kind)) {
+          continue
+        }
+        results.push(await this.download(site.name, kind, file.url, getPinnedFilePath(key, kind), site.files, file))
+      }
+    }
+
+    await this.writeLock(lock)
+    return results
+  }
+
+  /**
+   * Downloads a file and writes it to the docs folder when its content changed.
+   * The cached content is never used, so that an update run offline fails rather than reporting stale content.
+   */
+  private async download(
+    siteName: string,
+    kind: LlmsFileKind,
+    url: string,
+    path: string,
+    files: Partial<Record<LlmsFileKind, PinnedFile>>,
+    previous?: PinnedFile
+  ): Promise<PinResult> {
+    const uri = vscode.Uri.joinPath(this.getDocsFolderUri(), path)
+
+    try {
+      const content = await fetchTxtContent(url, false)
+      const sha256 = createHash('sha256').update(content).digest('hex')
+      const sameContent = previous?.sha256 === sha256 && previous.url === url
+      const unchanged = sameContent && (await exists(uri))
+
+      if (!unchanged) {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'))
+      }
+      // Keep the previous date for unchanged content, so the lock file only changes with the docs
+      const fetchedAt = sameContent && previous.fetchedAt ? previous.fetchedAt : new Date().toISOString()
+      files[kind] = { url, path, fetchedAt, sha256 }
+
+      return { siteName, kind, uri, status: !previous ? 'added' : unchanged ? 'unchanged' : 'changed' }
+    } catch (error) {
+      console.error(`Error pinning ${url}:`, error)
+      return {
+        siteName,
+        kind,
+        uri,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  private getLockUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.getDocsFolderUri(), LOCK_FILE_NAME)
+  }
+
+  private async writeLock(lock: ProjectDocsLock): Promise<void> {
+    // Sort sites so the lock file diffs cleanly
+    const sites = Object.fromEntries(Object.entries(lock.sites).sort(([a], [b]) => a.localeCompare(b)))
+    const content = `${JSON.stringify({ version: 1, sites }, null, 2)}\n`
+    await vscode.workspace.fs.writeFile(this.getLockUri(), Buffer.from(content, 'utf8'))
+  }
+}
+
+/**
+ * Gets the path of a pinned file relative to the docs folder, e.g. "docs.example.com/llms.txt"
+ */
+function getPinnedFilePath(domainKey: string, kind: LlmsFileKind): string {
+  return `${getSiteFolderName(domainKey)}/${kind}`
+}
+
+function isLlmsFileKind(kind: string): kind is LlmsFileKind {
+  return kind === 'llms.txt' || kind === 'llms-full.txt'
+}
+
+/**
+ * Turns a domain key into a safe folder name, e.g. "docs.example.com/api" becomes "docs.example.com-api"
+ */
+function getSiteFolderName(domainKey: string): string {
+  const name = domainKey.replace(/[^a-z0-9.-]+/g, '-').replace(/^-+|-+$/g, '')
+  // Names made of dots only, such as "..", would point outside the docs folder
+  return name.replace(/\./g, '') ? name : 'site'
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -60,11 +60,12 @@ export class SearchService {
    * Search websites using fuzzy matching
    * @param query Search query
    * @param category Optional category to filter by
+   * @param recordHistory Whether to remember the query in the search history
    * @returns Array of matching websites, sorted by relevance
    */
-  search(query: string, category?: string): Website[] {
+  search(query: string, category?: string, recordHistory = true): Website[] {
     // Add to search history
-    if (query.trim()) {
+    if (recordHistory && query.trim()) {
       this.addToHistory(query, category)
     }
 
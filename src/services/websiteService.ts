@@ -1,51 +1,215 @@
 import axios from 'axios'
-import type { Website, WebsiteApiResponse } from '../types'
+import { promises as fs } from 'node:fs'
+import type { RegistrySource, Website, WebsiteApiResponse } from '../types'
+import type { ContentCache } from './contentCache'
 
 // URL to the websites JSON data
 const WEBSITES_URL =
   'https://raw.githubusercontent.com/thedaviddias/llms-txt-hub/refs/heads/main/data/websites.json'
 
+// Cache used for text content, when the host provides one
+let contentCache: ContentCache | undefined
+
+/**
+ * Sets the cache {@link fetchTxtContent} stores content in and falls back to when offline
+ */
+export function setContentCache(cache: ContentCache | undefined): void {
+  contentCache = cache
+}
+
+// Sizes of files in bytes, from fetched content or the server's Content-Length
+const fileSizes = new Map<string, number>()
+const pendingFileSizes = new Map<string, Promise<number | undefined>>()
+
+/**
+ * The public llms.txt hub, used when no registry sources are configured
+ */
+export const DEFAULT_REGISTRY_SOURCE: RegistrySource = {
+  location: WEBSITES_URL,
+  label: 'llms.txt hub'
+}
+
 /**
- * Fetches the list of websites from the GitHub repository
+ * Fetches and merges the list of websites from one or more registry sources.
+ * When the same domain appears in several sources, the first source listed wins.
+ * @param sources Registry sources in order of precedence
+ * @param onSourceError Called for each source that fails while others succeed
  * @returns Promise with array of Website objects
  */
-export async function fetchWebsites(): Promise<Website[]> {
-  try {
-    const response = await axios.get<WebsiteApiResponse[]>(WEBSITES_URL)
+export async function fetchWebsites(
+  sources: RegistrySource[] = [DEFAULT_REGISTRY_SOURCE],
+  onSourceError?: (source: RegistrySource, error: unknown) => void
+): Promise<Website[]> {
+  const results = await Promise.allSettled(sources.map(fetchRegistrySource))
+
+  if (results.length > 0 && results.every(result => result.status === 'rejected')) {
+    console.error('Error fetching websites:', results)
+    throw new Error('Failed to fetch websites data')
+  }
 
-    // Map the response data to match our Website interface
-    // This handles any potential field name mismatches
-    return response.data.map(site => ({
+  const websitesByDomain = new Map<string, Website>()
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Error fetching websites from ${sources[index].location}:`, result.reason)
+      onSourceError?.(sources[index], result.reason)
+      return
+    }
+
+    for (const website of result.value) {
+      const key = getDomainKey(website.domain)
+      if (!websitesByDomain.has(key)) {
+        websitesByDomain.set(key, website)
+      }
+    }
+  })
+
+  return Array.from(websitesByDomain.values())
+}
+
+/**
+ * Fetches a single registry source and normalizes its entries
+ */
+async function fetchRegistrySource(source: RegistrySource): Promise<Website[]> {
+  const data: unknown = isRemoteLocation(source.location)
+    ? (await axios.get<WebsiteApiResponse[]>(source.location)).data
+    : JSON.parse(await fs.readFile(source.location, 'utf8'))
+
+  if (!Array.isArray(data)) {
+    throw new Error(`${source.label} is not a JSON array of websites`)
+  }
+
+  // Map the response data to match our Website interface
+  // This handles any potential field name mismatches
+  return (data as WebsiteApiResponse[])
+    .filter(site => site && site.name && site.domain)
+    .map(site => ({
       name: site.name,
       domain: site.domain,
-      description: site.description,
+      description: site.description ?? '',
       llmsTxtUrl: site.llmsTxtUrl || site.llmsUrl || '',
       llmsFullTxtUrl: site.llmsFullTxtUrl || site.llmsFullUrl || '',
       category: site.category,
       favicon: site.favicon,
-      publishedAt: site.publishedAt
+      publishedAt: site.publishedAt,
+      source: source.label
     }))
-  } catch (error) {
-    console.error('Error fetching websites:', error)
-    throw new Error('Failed to fetch websites data')
-  }
+}
+
+/**
+ * Whether a registry location is fetched over HTTP rather than read from disk
+ */
+export function isRemoteLocation(location: string): boolean {
+  return /^https?:\/\//i.test(location)
+}
+
+/**
+ * Normalizes a website domain so the same site matches across sources,
+ * e.g. "https://www.Example.com/" becomes "example.com"
+ */
+export function getDomainKey(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/+$/, '')
+}
+
+/**
+ * Finds a website by domain or name, e.g. "stripe.com", "https://docs.stripe.com" or "Stripe"
+ */
+export function findWebsiteByDomain(websites: Website[], domain: string): Website | undefined {
+  const key = getDomainKey(domain)
+  const name = domain.trim().toLowerCase()
+  return (
+    websites.find(website => getDomainKey(website.domain) === key) ??
+    websites.find(website => website.name.toLowerCase() === name) ??
+    websites.find(website => getDomainKey(website.domain).endsWith(`.${key}`))
+  )
 }
 
 /**
  * Fetches the content of a text file from a URL
  * @param url URL of the text file to fetch
+ * @param fallbackToCache Whether to serve the cached content when the request fails
  * @returns Promise with the text content
  */
-export async function fetchTxtContent(url: string): Promise<string> {
+export async function fetchTxtContent(url: string, fallbackToCache = true): Promise<string> {
   try {
-    const response = await axios.get<string>(url, {
-      headers: {
-        Accept: 'text/plain'
-      }
-    })
-    return response.data
+    let content: string
+    if (contentCache) {
+      content = await contentCache.fetch(url, fallbackToCache)
+    } else {
+      const response = await axios.get<string>(url, {
+        headers: {
+          Accept: 'text/plain'
+        }
+      })
+      content = response.data
+    }
+
+    if (typeof content === 'string') {
+      fileSizes.set(url, Buffer.byteLength(content, 'utf8'))
+    }
+    return content
   } catch (error) {
     console.error(`Error fetching text content from ${url}:`, error)
     throw new Error(`Failed to fetch text content from ${url}`)
   }
 }
+
+/**
+ * Gets the size of a file if it is already known, without any request
+ * @param url URL of the file
+ */
+export function getKnownFileSize(url: string): number | undefined {
+  return fileSizes.get(url)
+}
+
+/**
+ * Gets the size of a file from the content cache, or from a HEAD request's Content-Length.
+ * Each URL is looked up once until {@link clearFileSizes} is called.
+ * @param url URL of the file
+ * @returns Size in bytes, or undefined when the server does not report it
+ */
+export function getFileSize(url: string): Promise<number | undefined> {
+  const known = fileSizes.get(url)
+  if (known !== undefined) {
+    return Promise.resolve(known)
+  }
+
+  let pending = pendingFileSizes.get(url)
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const entry = await contentCache?.getEntry(url)
+        if (entry) {
+          return entry.size
+        }
+
+        // Ask for the uncompressed length, which is what the content will take up
+        const response = await axios.head(url, { headers: { 'Accept-Encoding': 'identity' }, timeout: 5000 })
+        const length = Number(response.headers['content-length'])
+        return Number.isFinite(length) && length > 0 ? length : undefined
+      } catch (error) {
+        console.error(`Error getting the size of ${url}:`, error)
+        return undefined
+      }
+    })().then(size => {
+      if (size !== undefined) {
+        fileSizes.set(url, size)
+      }
+      return size
+    })
+    pendingFileSizes.set(url, pending)
+  }
+  return pending
+}
+
+/**
+ * Forgets file sizes so they are looked up again
+ */
+export function clearFileSizes(): void {
+  fileSizes.clear()
+  pendingFileSizes.clear()
+}
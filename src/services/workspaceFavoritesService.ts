@@ -0,0 +1,214 @@
+import * as vscode from 'vscode'
+import type { FavoriteGroup, FavoritesFile, Website } from '../types'
+
+const DEFAULT_WORKSPACE_FILE = '.vscode/llms-txt-favorites.json'
+
+/**
+ * Name of the group that websites listed without a group are shown in
+ */
+const UNGROUPED_NAME = 'Workspace'
+
+/**
+ * Parses a favorites file: either a {@link FavoritesFile} or a plain array of websites
+ * @throws When the content is not JSON in either shape
+ */
+export function parseFavoritesFile(content: string): FavoritesFile['groups'] {
+  const data: unknown = JSON.parse(content)
+  const groups = Array.isArray(data)
+    ? [{ name: UNGROUPED_NAME, websites: data }]
+    : (data as Partial<FavoritesFile> | null)?.groups
+
+  if (!Array.isArray(groups)) {
+    throw new Error('Expected an array of websites or an object with "groups"')
+  }
+  return groups.map(group => ({
+    name: typeof group?.name === 'string' && group.name.trim() ? group.name.trim() : UNGROUPED_NAME,
+    websites: (Array.isArray(group?.websites) ? group.websites : [])
+      .filter((website: Partial<Website>) => typeof website?.domain === 'string' && website.domain)
+      .map((website: Partial<Website>) => ({
+        name: website.name || website.domain!,
+        domain: website.domain!,
+        description: website.description ?? '',
+        llmsTxtUrl: website.llmsTxtUrl,
+        llmsFullTxtUrl: website.llmsFullTxtUrl,
+        category: website.category
+      }))
+  }))
+}
+
+/**
+ * Serializes groups of favorites to the favorites file format
+ */
+export function serializeFavoritesFile(groups: { name: string; websites: Website[] }[]): string {
+  const file: FavoritesFile = {
+    version: 1,
+    groups: groups.map(group => ({
+      name: group.name,
+      websites: group.websites.map(website => ({
+        name: website.name,
+        domain: website.domain,
+        description: website.description,
+        llmsTxtUrl: website.llmsTxtUrl,
+        llmsFullTxtUrl: website.llmsFullTxtUrl,
+        category: website.category
+      }))
+    }))
+  }
+  return `${JSON.stringify(file, null, 2)}\n`
+}
+
+/**
+ * Favorites shared with a team through a file in each workspace folder, from the
+ * `llms-txt.favorites.workspaceFile` setting. The files are watched, so changes
+ * pulled from version control show up immediately.
+ */
+export class WorkspaceFavoritesService implements vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<void>()
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event
+
+  private groups: FavoriteGroup[] = []
+  private watchers: vscode.Disposable[] = []
+  private disposables: vscode.Disposable[] = []
+
+  constructor() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.watch()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('llms-txt.favorites.workspaceFile')) {
+          this.watch()
+        }
+      })
+    )
+    this.watch()
+  }
+
+  /**
+   * Gets the groups of every workspace favorites file, folder by folder
+   */
+  getGroups(): FavoriteGroup[] {
+    return this.groups
+  }
+
+  /**
+   * Gets the favorites file of a workspace folder
+   */
+  getFileUri(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri {
+    const file = vscode.workspace
+      .getConfiguration('llms-txt', workspaceFolder.uri)
+      .get<string>('favorites.workspaceFile', DEFAULT_WORKSPACE_FILE)
+    return vscode.Uri.joinPath(workspaceFolder.uri, file || DEFAULT_WORKSPACE_FILE)
+  }
+
+  /**
+   * Adds websites to a group of a folder's favorites file, creating the file or group as needed
+   * @returns The websites that were not in the group yet
+   */
+  async add(workspaceFolder: vscode.WorkspaceFolder, groupName: string, websites: Website[]): Promise<Website[]> {
+    const groups = await this.readFile(workspaceFolder)
+    let group = groups.find(candidate => candidate.name === groupName)
+    if (!group) {
+      group = { name: groupName, websites: [] }
+      groups.push(group)
+    }
+
+    const target = group
+    const added = websites.filter(website => !target.websites.some(existing => existing.domain === website.domain))
+    target.websites.push(...added)
+    await this.writeFile(workspaceFolder, groups)
+    return added
+  }
+
+  /**
+   * Removes a website from a group
+   */
+  async remove(groupId: string, domain: string): Promise<void> {
+    const group = this.groups.find(candidate => candidate.id === groupId)
+    const workspaceFolder = group?.workspaceFolder && vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(group.workspaceFolder))
+    if (!group || !workspaceFolder) {
+      return
+    }
+
+    const groups = await this.readFile(workspaceFolder)
+    const fileGroup = groups.find(candidate => candidate.name === group.name)
+    if (fileGroup) {
+      fileGroup.websites = fileGroup.websites.filter(website => website.domain !== domain)
+      await this.writeFile(workspaceFolder, groups)
+    }
+  }
+
+  dispose(): void {
+    this.watchers.forEach(watcher => watcher.dispose())
+    this.disposables.forEach(disposable => disposable.dispose())
+    this._onDidChange.dispose()
+  }
+
+  /**
+   * Watches the favorites file of every workspace folder and loads them
+   */
+  private watch(): void {
+    this.watchers.forEach(watcher => watcher.dispose())
+    this.watchers = []
+
+    for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+      const fileUri = this.getFileUri(workspaceFolder)
+      const relativePath = fileUri.path.slice(workspaceFolder.uri.path.replace(/\/$/, '').length + 1)
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, relativePath))
+      watcher.onDidCreate(() => this.load())
+      watcher.onDidChange(() => this.load())
+      watcher.onDidDelete(() => this.load())
+      this.watchers.push(watcher)
+    }
+    this.load()
+  }
+
+  private async load(): Promise<void> {
+    const groups: FavoriteGroup[] = []
+    for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+      let fileGroups: FavoritesFile['groups']
+      try {
+        fileGroups = await this.readFile(workspaceFolder)
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error))
+        continue
+      }
+      fileGroups.forEach((group, index) => {
+        groups.push({
+          id: `workspace:${workspaceFolder.index}:${index}`,
+          name: group.name,
+          websites: group.websites,
+          workspaceFolder: workspaceFolder.uri.toString()
+        })
+      })
+    }
+    this.groups = groups
+    this._onDidChange.fire()
+  }
+
+  /**
+   * Reads a folder's favorites file
+   * @returns The groups, or none when the folder has no file
+   * @throws When the file cannot be parsed, so it is never overwritten
+   */
+  private async readFile(workspaceFolder: vscode.WorkspaceFolder): Promise<FavoritesFile['groups']> {
+    const uri = this.getFileUri(workspaceFolder)
+    let content: string
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+    } catch {
+      return []
+    }
+
+    try {
+      return parseFavoritesFile(content)
+    } catch (error) {
+      throw new Error(
+        `Invalid workspace favorites file ${vscode.workspace.asRelativePath(uri)}: ${error instanceof Error ? error.message : error}`
+      )
+    }
+  }
+
+  private async writeFile(workspaceFolder: vscode.WorkspaceFolder, groups: FavoritesFile['groups']): Promise<void> {
+    await vscode.workspace.fs.writeFile(this.getFileUri(workspaceFolder), Buffer.from(serializeFavoritesFile(groups), 'utf8'))
+    await this.load()
+  }
+}
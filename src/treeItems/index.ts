@@ -1,5 +1,10 @@
 import * as vscode from 'vscode'
-import type { Website } from '../types'
+import type { FavoriteGroup, LlmsTxtLink, LlmsTxtSection, Website } from '../types'
+import { DEFAULT_REGISTRY_SOURCE, getFileSize, getKnownFileSize } from '../services/websiteService'
+import { CUSTOM_WEBSITES_SOURCE } from '../services/customWebsites'
+import { type LinkCheckResult, describeLinkStatus, getLinkHealth, isBrokenLink } from '../services/linkHealthService'
+import { estimateTokensForSize, formatTokenCount } from '../utils/tokens'
+import { formatSizeEstimate } from '../utils'
 
 /**
  * Tree item for displaying no results message
@@ -13,6 +18,34 @@ export class NoResultsItem extends vscode.TreeItem {
   }
 }
 
+/**
+ * Tree item shown while the websites are being fetched for the first time
+ */
+export class LoadingItem extends vscode.TreeItem {
+  constructor() {
+    super('Loading websites...', vscode.TreeItemCollapsibleState.None)
+    this.contextValue = 'loading'
+    this.iconPath = new vscode.ThemeIcon('loading~spin')
+  }
+}
+
+/**
+ * Tree item shown when the websites could not be loaded, with a retry action
+ */
+export class LoadErrorItem extends vscode.TreeItem {
+  constructor(message: string) {
+    super('Failed to load websites', vscode.TreeItemCollapsibleState.None)
+    this.description = 'Click to retry'
+    this.tooltip = `${message}\n\nClick to retry`
+    this.contextValue = 'load-error'
+    this.iconPath = new vscode.ThemeIcon('error')
+    this.command = {
+      command: 'llms-txt-extension.refreshWebsites',
+      title: 'Retry'
+    }
+  }
+}
+
 /**
  * Tree item representing a category
  */
@@ -33,24 +66,62 @@ export class CategoryItem extends vscode.TreeItem {
   }
 }
 
+/**
+ * Tree item representing a group of favorites
+ */
+export class FavoriteGroupItem extends vscode.TreeItem {
+  group: FavoriteGroup
+
+  constructor(group: FavoriteGroup, isDefault: boolean) {
+    super(group.name, vscode.TreeItemCollapsibleState.Expanded)
+
+    this.group = group
+    this.id = `favorite-group:${group.id}`
+    this.description = `(${group.websites.length})`
+
+    if (group.workspaceFolder) {
+      // Groups shared through a workspace favorites file are edited in the file
+      this.contextValue = 'favorite-group:workspace'
+      this.description += ` · ${vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(group.workspaceFolder))?.name ?? 'workspace'}`
+      this.tooltip = `${group.name}\n\nShared with everyone working in this workspace`
+      this.iconPath = new vscode.ThemeIcon('organization')
+    } else {
+      // The default group can be renamed but not deleted
+      this.contextValue = isDefault ? 'favorite-group:default' : 'favorite-group'
+      this.iconPath = new vscode.ThemeIcon('folder')
+    }
+  }
+}
+
 /**
  * Tree item representing a website
  */
 export class WebsiteItem extends vscode.TreeItem {
   website: Website
   isFavorite: boolean
+  /** Favorite group the item is shown in, in the Favorites view */
+  groupId?: string
+  /** Why the item needs attention, shown before its description and in its tooltip */
+  warning?: { label: string; details: string }
+  /** Why the item is shown, e.g. the dependencies it was recommended for */
+  hint?: { label: string; details: string }
 
   constructor(website: Website, isFavorite = false) {
-    super(website.name, vscode.TreeItemCollapsibleState.None)
+    // Websites with an llms.txt can be expanded to browse its sections
+    super(
+      website.name,
+      website.llmsTxtUrl ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    )
 
     this.website = website
     this.isFavorite = isFavorite
 
-    // Set contextValue with both website and favorite status
+    // Set contextValue with both website and favorite status; websites the user added can be edited
     this.contextValue = isFavorite ? 'website:favorite' : 'website'
-
-    this.description = website.domain
-    this.tooltip = `${website.name}\n${website.domain}\n${website.description}`
+    if (website.source === CUSTOM_WEBSITES_SOURCE) {
+      this.contextValue += ':custom'
+    }
+    this.updateDescription()
 
     // Use the website's favicon if available
     if (website.favicon) {
@@ -65,5 +136,148 @@ export class WebsiteItem extends vscode.TreeItem {
       title: 'View LLMS.txt Content',
       arguments: [this]
     }
+
+    // Flag files the last link health check found broken
+    const brokenLinks = [website.llmsTxtUrl, website.llmsFullTxtUrl]
+      .map(url => (url ? getLinkHealth(url) : undefined))
+      .filter((result): result is LinkCheckResult => result !== undefined && isBrokenLink(result))
+    if (brokenLinks.length > 0) {
+      this.setWarning(
+        'Broken link',
+        `Link health check on ${new Date(brokenLinks[0].checkedAt).toLocaleString()}:\n` +
+          brokenLinks.map(result => `${result.kind}: ${describeLinkStatus(result)}`).join('\n')
+      )
+    }
+  }
+
+  /**
+   * Flags the item with a warning icon, e.g. for a favorite the registry no longer lists
+   * @param label Short reason shown in the description
+   * @param details Explanation shown in the tooltip
+   */
+  setWarning(label: string, details: string): void {
+    this.warning = { label, details }
+    this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+    this.updateDescription()
+  }
+
+  /**
+   * Explains why the item is shown, before its description and in its tooltip
+   */
+  setHint(label: string, details: string): void {
+    this.hint = { label, details }
+    this.updateDescription()
+  }
+
+  /**
+   * Looks up the sizes of the website's files, which are shown once known
+   * @returns Whether the description changed
+   */
+  async resolveFileSizes(): Promise<boolean> {
+    const description = this.description
+    await Promise.all([this.website.llmsTxtUrl, this.website.llmsFullTxtUrl].map(url => url && getFileSize(url)))
+    this.updateDescription()
+    return this.description !== description
+  }
+
+  /**
+   * Sets the description and tooltip from the website and the known sizes of its files
+   */
+  private updateDescription(): void {
+    const website = this.website
+    const llmsTxtSize = website.llmsTxtUrl ? getKnownFileSize(website.llmsTxtUrl) : undefined
+    const llmsFullTxtSize = website.llmsFullTxtUrl ? getKnownFileSize(website.llmsFullTxtUrl) : undefined
+
+    // Tag websites that come from a registry other than the public hub with their origin
+    const isExternalSource = website.source && website.source !== DEFAULT_REGISTRY_SOURCE.label
+    const parts = [isExternalSource ? `${website.domain} · ${website.source}` : website.domain]
+    const note = this.warning ?? this.hint
+    if (note) {
+      parts.unshift(note.label)
+    }
+    if (llmsTxtSize !== undefined) {
+      const full = llmsFullTxtSize !== undefined ? ` (full ~${formatTokenCount(estimateTokensForSize(llmsFullTxtSize))})` : ''
+      parts.push(`~${formatTokenCount(estimateTokensForSize(llmsTxtSize))} tokens${full}`)
+    } else if (llmsFullTxtSize !== undefined) {
+      parts.push(`full ~${formatTokenCount(estimateTokensForSize(llmsFullTxtSize))} tokens`)
+    }
+    this.description = parts.join(' · ')
+
+    this.tooltip = `${website.name}\n${website.domain}\n${website.description}`
+    if (website.source) {
+      this.tooltip += `\n\nSource: ${website.source}`
+    }
+    const sizes = [
+      llmsTxtSize !== undefined ? `LLMS.txt: ${formatSizeEstimate(llmsTxtSize)}` : '',
+      llmsFullTxtSize !== undefined ? `LLMS Full.txt: ${formatSizeEstimate(llmsFullTxtSize)}` : ''
+    ].filter(Boolean)
+    if (sizes.length > 0) {
+      this.tooltip += `\n\n${sizes.join('\n')}`
+    }
+    if (note) {
+      this.tooltip += `\n\n${note.details}`
+    }
+  }
+}
+
+/**
+ * Tree item representing an H2 section of a website's llms.txt
+ */
+export class SectionItem extends vscode.TreeItem {
+  section: LlmsTxtSection
+  parent: WebsiteItem
+
+  constructor(section: LlmsTxtSection, parent: WebsiteItem) {
+    super(
+      section.title,
+      section.links.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    )
+
+    this.section = section
+    this.parent = parent
+    this.contextValue = 'section'
+    this.description = `(${section.links.length})`
+    this.iconPath = new vscode.ThemeIcon(section.optional ? 'circle-outline' : 'symbol-namespace')
+    this.tooltip = section.optional
+      ? `${section.title}\n\nOptional: can be skipped when a shorter context is needed`
+      : section.title
+  }
+}
+
+/**
+ * Tree item representing a linked doc listed in an llms.txt section
+ */
+export class LinkItem extends vscode.TreeItem {
+  link: LlmsTxtLink
+  parent: SectionItem
+
+  constructor(link: LlmsTxtLink, parent: SectionItem) {
+    super(link.title, vscode.TreeItemCollapsibleState.None)
+
+    this.link = link
+    this.parent = parent
+    this.contextValue = 'link'
+    this.description = link.notes
+    this.tooltip = link.notes ? `${link.title}\n${link.url}\n\n${link.notes}` : `${link.title}\n${link.url}`
+    this.iconPath = new vscode.ThemeIcon('file-text')
+
+    // Open the linked doc on click
+    this.command = {
+      command: 'llms-txt-extension.openLinkedDoc',
+      title: 'Open Linked Doc',
+      arguments: [this]
+    }
+  }
+}
+
+/**
+ * Tree item shown under a website when its llms.txt has no sections or cannot be loaded
+ */
+export class OutlineMessageItem extends vscode.TreeItem {
+  constructor(message: string, icon = 'info', tooltip?: string) {
+    super(message, vscode.TreeItemCollapsibleState.None)
+    this.contextValue = 'outline-message'
+    this.iconPath = new vscode.ThemeIcon(icon)
+    this.tooltip = tooltip
   }
 }
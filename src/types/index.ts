@@ -11,6 +11,37 @@ export interface Website {
   favicon?: string
   llmsTxtUrl?: string
   llmsFullTxtUrl?: string
+  /** Label of the registry source the website was loaded from */
+  source?: string
+}
+
+/**
+ * A user-created group of favorite websites, in display order
+ */
+export interface FavoriteGroup {
+  id: string
+  name: string
+  websites: Website[]
+  /** URI of the workspace folder, for groups read from a workspace favorites file */
+  workspaceFolder?: string
+}
+
+/**
+ * Favorites as written to a workspace favorites file or an export
+ */
+export interface FavoritesFile {
+  version: 1
+  groups: { name: string; websites: Website[] }[]
+}
+
+/**
+ * A registry of websites, either a remote URL or a JSON file on disk
+ */
+export interface RegistrySource {
+  /** Remote URL or absolute path of a JSON file using the {@link WebsiteApiResponse} shape */
+  location: string
+  /** Label used to tag websites coming from this source */
+  label: string
 }
 
 /**
@@ -24,9 +55,94 @@ export interface WebsiteApiResponse {
   llmsUrl?: string
   llmsFullTxtUrl?: string
   llmsFullUrl?: string
-  category: string
-  favicon: string
-  publishedAt: string
+  category?: string
+  favicon?: string
+  publishedAt?: string
+}
+
+/**
+ * The two files a website can publish
+ */
+export type LlmsFileKind = 'llms.txt' | 'llms-full.txt'
+
+/**
+ * A file pinned into the workspace, as recorded in the project lock file
+ */
+export interface PinnedFile {
+  /** URL the file was downloaded from */
+  url: string
+  /** Path of the file, relative to the docs folder */
+  path: string
+  /** ISO date of the last download */
+  fetchedAt: string
+  /** SHA-256 of the content */
+  sha256: string
+}
+
+/**
+ * Lock file listing the llms.txt files pinned into a workspace
+ */
+export interface ProjectDocsLock {
+  version: 1
+  sites: Record<
+    string,
+    {
+      name: string
+      domain: string
+      files: Partial<Record<LlmsFileKind, PinnedFile>>
+    }
+  >
+}
+
+/**
+ * Package ecosystems whose manifests are scanned for dependencies
+ */
+export type DependencyEcosystem = 'npm' | 'pypi' | 'go' | 'cargo' | 'composer' | 'rubygems'
+
+/**
+ * A dependency declared in one or more manifests of the workspace
+ */
+export interface ProjectDependency {
+  name: string
+  ecosystem: DependencyEcosystem
+  /** Workspace-relative paths of the manifests declaring it */
+  manifests: string[]
+}
+
+/**
+ * A link entry in an llms.txt section, e.g. `- [Title](https://example.com/doc.md): notes`
+ */
+export interface LlmsTxtLink {
+  title: string
+  url: string
+  notes?: string
+  /** Zero-based line number of the entry */
+  line: number
+}
+
+/**
+ * An H2 section of an llms.txt file
+ */
+export interface LlmsTxtSection {
+  title: string
+  /** Whether this is the "Optional" section, which can be skipped when context is short */
+  optional: boolean
+  links: LlmsTxtLink[]
+  /** Zero-based line number of the heading */
+  line: number
+}
+
+/**
+ * Structured model of an llms.txt file
+ */
+export interface LlmsTxtDocument {
+  /** The H1 title */
+  title?: string
+  /** The blockquote summary following the title */
+  summary?: string
+  /** Free-form content between the summary and the first section */
+  details?: string
+  sections: LlmsTxtSection[]
 }
 
 /**
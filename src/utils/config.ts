@@ -0,0 +1,144 @@
+import * as vscode from 'vscode'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import type { RegistrySource } from '../types'
+import { DEFAULT_REGISTRY_SOURCE, isRemoteLocation } from '../services/websiteService'
+import { DEFAULT_CHARACTERS_PER_TOKEN } from './tokens'
+import type { DependencyMapping } from '../services/dependencyMatcher'
+
+/**
+ * A registry source as written in the `llms-txt.registry.sources` setting
+ */
+type RegistrySourceSetting = string | { location?: string; label?: string }
+
+/**
+ * Reads the configured registry sources, resolving file paths to absolute paths.
+ * Relative paths are resolved against the first workspace folder.
+ */
+export function getRegistrySources(): RegistrySource[] {
+  const settings = vscode.workspace
+    .getConfiguration('llms-txt')
+    .get<RegistrySourceSetting[]>('registry.sources', [])
+
+  const sources: RegistrySource[] = []
+  for (const setting of settings) {
+    const location = typeof setting === 'string' ? setting : setting?.location
+    if (!location?.trim()) {
+      continue
+    }
+
+    const resolved = resolveSourceLocation(location.trim())
+    if (!resolved) {
+      console.warn(`Skipping registry source ${location}: no workspace folder to resolve it against`)
+      continue
+    }
+
+    const label = typeof setting === 'string' ? undefined : setting.label
+    sources.push({ location: resolved, label: label || getDefaultLabel(resolved) })
+  }
+
+  return sources.length > 0 ? sources : [DEFAULT_REGISTRY_SOURCE]
+}
+
+/**
+ * Resolves a configured location to a URL or an absolute file path
+ */
+function resolveSourceLocation(location: string): string | undefined {
+  if (isRemoteLocation(location)) {
+    return location
+  }
+  if (location.startsWith('file://')) {
+    return vscode.Uri.parse(location).fsPath
+  }
+  if (location === '~' || location.startsWith('~/')) {
+    return path.join(os.homedir(), location.slice(1))
+  }
+  if (path.isAbsolute(location)) {
+    return location
+  }
+
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+  return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, location) : undefined
+}
+
+/**
+ * Derives a label from a location: the host for URLs, the file name for local files
+ */
+function getDefaultLabel(location: string): string {
+  if (location === DEFAULT_REGISTRY_SOURCE.location) {
+    return DEFAULT_REGISTRY_SOURCE.label
+  }
+  if (isRemoteLocation(location)) {
+    return vscode.Uri.parse(location).authority
+  }
+  return path.basename(location)
+}
+
+/**
+ * Reads the characters per token ratio used to estimate token counts
+ */
+export function getCharactersPerToken(): number {
+  return vscode.workspace
+    .getConfiguration('llms-txt')
+    .get<number>('tokens.charactersPerToken', DEFAULT_CHARACTERS_PER_TOKEN)
+}
+
+/**
+ * Reads the estimated token count above which viewing or copying a file asks for confirmation; 0 disables the warning
+ */
+export function getLargeFileWarningTokens(): number {
+  return vscode.workspace.getConfiguration('llms-txt').get<number>('tokens.largeFileWarning', 200000)
+}
+
+/**
+ * Reads how many versions of each file the content history keeps; 0 turns the history off
+ */
+export function getMaxHistorySnapshots(): number {
+  return vscode.workspace.getConfiguration('llms-txt').get<number>('history.maxSnapshots', 10)
+}
+
+/**
+ * Reads the mapping of dependency names to websites used by the This Project view
+ */
+export function getDependencyMapping(): DependencyMapping {
+  return vscode.workspace.getConfiguration('llms-txt').get<DependencyMapping>('project.dependencyMapping', {})
+}
+
+/**
+ * Changes entries of the dependency mapping, in the workspace settings when a folder is open
+ * @param changes Entries to set; undefined removes an entry
+ */
+export async function updateDependencyMapping(changes: Record<string, string | null | undefined>): Promise<void> {
+  const configuration = vscode.workspace.getConfiguration('llms-txt')
+  const inspected = configuration.inspect<DependencyMapping>('project.dependencyMapping')
+  const target = vscode.workspace.workspaceFolders?.length
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global
+  const current = (target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.globalValue) ?? {}
+
+  const mapping: Record<string, string | null | undefined> = { ...current, ...changes }
+  for (const [name, value] of Object.entries(mapping)) {
+    if (value === undefined) {
+      delete mapping[name]
+    }
+  }
+  await configuration.update('project.dependencyMapping', mapping, target)
+}
+
+/**
+ * Reads how many links the link health check requests at a time, and how long it waits for each
+ */
+export function getLinkHealthSettings(): { concurrency: number; timeoutMs: number } {
+  const configuration = vscode.workspace.getConfiguration('llms-txt')
+  return {
+    concurrency: Math.max(1, configuration.get<number>('linkHealth.concurrency', 8)),
+    timeoutMs: Math.max(1, configuration.get<number>('linkHealth.timeoutSeconds', 10)) * 1000
+  }
+}
+
+/**
+ * Whether clicking a website or linked doc opens the rendered preview rather than the text
+ */
+export function getOpenInPreview(): boolean {
+  return vscode.workspace.getConfiguration('llms-txt').get<boolean>('view.openInPreview', false)
+}
@@ -1,5 +1,9 @@
 import * as vscode from 'vscode'
-import { fetchTxtContent } from '../services/websiteService'
+import { LLMS_TXT_LANGUAGE_ID } from '../providers/llmsTxtLanguage'
+import { createContentUri } from '../providers/llmsTxtContentProvider'
+import { getFileSize } from '../services/websiteService'
+import { estimateTokensForSize, formatTokens } from './tokens'
+import { getLargeFileWarningTokens } from './config'
 
 /**
  * Copies text to the clipboard
@@ -15,11 +19,15 @@ export async function copyToClipboard(text: string): Promise<void> {
 }
 
 /**
- * Fetches and displays text content in a new editor tab
+ * Fetches and displays text content in a read-only editor tab.
+ * Viewing the same content again reveals the existing tab.
  * @param url URL of the text content to fetch and display
  * @param title Title for the editor tab
+ * @param line Optional zero-based line to reveal and select
+ * @param lineText Text expected on that line. When the content changed and the line moved,
+ * the nearest line with this text is revealed instead.
  */
-export async function viewTxtContent(url: string, title: string): Promise<void> {
+export async function viewTxtContent(url: string, title: string, line?: number, lineText?: string): Promise<void> {
   try {
     // Show progress notification
     await vscode.window.withProgress(
@@ -29,17 +37,15 @@ export async function viewTxtContent(url: string, title: string): Promise<void>
         cancellable: false
       },
       async () => {
-        // Fetch the text content
-        const content = await fetchTxtContent(url)
+        // Open the read-only document, which fetches the content through the content provider
+        let document = await vscode.workspace.openTextDocument(createContentUri(url, title))
+        if (document.languageId !== LLMS_TXT_LANGUAGE_ID) {
+          document = await vscode.languages.setTextDocumentLanguage(document, LLMS_TXT_LANGUAGE_ID)
+        }
 
-        // Create a new untitled document
-        const document = await vscode.workspace.openTextDocument({
-          content,
-          language: 'plaintext'
-        })
-
-        // Show the document in a new editor
-        await vscode.window.showTextDocument(document, { preview: false })
+        // Show the document in a new editor, jumping to the requested line
+        const selection = line !== undefined ? document.lineAt(findLine(document, line, lineText)).range : undefined
+        await vscode.window.showTextDocument(document, { preview: false, selection })
       }
     )
   } catch (error) {
@@ -48,6 +54,41 @@ export async function viewTxtContent(url: string, title: string): Promise<void>
   }
 }
 
+/**
+ * Finds the line holding a text nearest to where it was, or the given line when the text is gone
+ */
+function findLine(document: vscode.TextDocument, line: number, text?: string): number {
+  const clamped = Math.min(line, document.lineCount - 1)
+  if (text === undefined || document.lineAt(clamped).text === text) {
+    return clamped
+  }
+  for (let distance = 1; distance < document.lineCount; distance++) {
+    for (const candidate of [line - distance, line + distance]) {
+      if (candidate >= 0 && candidate < document.lineCount && document.lineAt(candidate).text === text) {
+        return candidate
+      }
+    }
+  }
+  return clamped
+}
+
+/**
+ * Picks the workspace folder a command should act on, asking only when there are several
+ * @param placeHolder Prompt shown when the user has to choose
+ * @returns The folder, or undefined when no folder is open or the user cancelled
+ */
+export async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders ?? []
+  if (folders.length === 0) {
+    vscode.window.showErrorMessage('Open a folder or workspace first')
+    return undefined
+  }
+  if (folders.length === 1) {
+    return folders[0]
+  }
+  return vscode.window.showWorkspaceFolderPick({ placeHolder })
+}
+
 /**
  * Opens a URL in the default web browser
  * @param url URL to open
@@ -60,3 +101,74 @@ export async function openInBrowser(url: string): Promise<void> {
     throw new Error(`Failed to open URL in browser: ${url}`)
   }
 }
+
+/**
+ * Formats a timestamp as a short relative time, e.g. "5 minutes ago"
+ * @param timestamp Time in milliseconds since the epoch
+ */
+export function formatTimeAgo(timestamp: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000))
+  const units: [string, number][] = [
+    ['day', 24 * 60 * 60],
+    ['hour', 60 * 60],
+    ['minute', 60]
+  ]
+
+  for (const [unit, size] of units) {
+    const value = Math.floor(seconds / size)
+    if (value >= 1) {
+      return `${value} ${unit}${value === 1 ? '' : 's'} ago`
+    }
+  }
+  return 'just now'
+}
+
+/**
+ * Formats a size in bytes for display, e.g. "1.5 MB"
+ * @param bytes Size in bytes
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`
+}
+
+/**
+ * Formats a file size with its estimated token count, e.g. "1.5 MB, about 393k tokens"
+ * @param bytes Size in bytes
+ */
+export function formatSizeEstimate(bytes: number): string {
+  return `${formatBytes(bytes)}, about ${formatTokens(estimateTokensForSize(bytes))}`
+}
+
+/**
+ * Asks for confirmation before acting on a file whose estimated token count is over the
+ * `llms-txt.tokens.largeFileWarning` setting. Files of unknown size are not confirmed.
+ * @param url URL of the file
+ * @param title Name of the file shown in the warning, e.g. "Stripe - LLMS Full.txt"
+ * @param action Label of the confirming button, e.g. "Open"
+ * @returns Whether to go ahead
+ */
+export async function confirmLargeFile(url: string, title: string, action: string): Promise<boolean> {
+  const threshold = getLargeFileWarningTokens()
+  if (threshold <= 0) {
+    return true
+  }
+
+  const size = await getFileSize(url)
+  if (size === undefined || estimateTokensForSize(size) <= threshold) {
+    return true
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `${title} is ${formatSizeEstimate(size)}. ${action} it anyway?`,
+    { modal: true },
+    action
+  )
+  return choice === action
+}
@@ -0,0 +1,50 @@
+/**
+ * Average number of characters per token for English prose and markdown
+ */
+export const DEFAULT_CHARACTERS_PER_TOKEN = 4
+
+// Characters per token used for estimates, from the `llms-txt.tokens.charactersPerToken` setting
+let charactersPerToken = DEFAULT_CHARACTERS_PER_TOKEN
+
+/**
+ * Sets the characters per token ratio used by the estimates
+ */
+export function setCharactersPerToken(value: number): void {
+  charactersPerToken = value > 0 ? value : DEFAULT_CHARACTERS_PER_TOKEN
+}
+
+/**
+ * Estimates how many tokens a model will count for a text
+ * @param text Text to estimate
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / charactersPerToken)
+}
+
+/**
+ * Estimates the tokens of a file from its size, counting a byte per character
+ * @param bytes Size of the file in bytes
+ */
+export function estimateTokensForSize(bytes: number): number {
+  return Math.ceil(bytes / charactersPerToken)
+}
+
+/**
+ * Formats a token count compactly, e.g. "850", "12.3k" or "4.1M"
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) {
+    return String(tokens)
+  }
+  if (tokens < 1000000) {
+    return `${(tokens / 1000).toFixed(tokens < 10000 ? 1 : 0)}k`
+  }
+  return `${(tokens / 1000000).toFixed(tokens < 10000000 ? 1 : 0)}M`
+}
+
+/**
+ * Formats a token count for display, e.g. "850 tokens" or "12.3k tokens"
+ */
+export function formatTokens(tokens: number): string {
+  return `${formatTokenCount(tokens)} tokens`
+}